@@ -6,13 +6,23 @@ import { BgManageServer } from '@/services/ManageBgServer.js';
 import { PackageInfoProviderTag, type PackageInfoProvider } from '@/services/PackageInfoProvider.js';
 import { type ProcessController, ProcessControllerTag, ProcessControllerImpl } from '@/services/ProcessController.js';
 import { type ProcessLogBuffer, ProcessLogBufferImpl, ProcessLogBufferTag } from '@/services/ProcessLogBuffer.js';
+import { type ProcessLogStore, ProcessLogStoreImpl, ProcessLogStoreTag } from '@/services/ProcessLogStore.js';
+import { type ReadinessChecker, ReadinessCheckerImpl, ReadinessCheckerTag } from '@/services/ReadinessChecker.js';
+import { GetErrorsHandler } from '@/services/tools/GetErrorsHandler.js';
 import { GetInfoHandler } from '@/services/tools/GetInfoHandler.js';
 import { GetLogsHandler } from '@/services/tools/GetLogsHandler.js';
+import { ListDefinitionsHandler } from '@/services/tools/ListDefinitionsHandler.js';
 import { ListHandler } from '@/services/tools/ListHandler.js';
+import { ListScriptsHandler } from '@/services/tools/ListScriptsHandler.js';
+import { ResizeHandler } from '@/services/tools/ResizeHandler.js';
 import { RestartHandler } from '@/services/tools/RestartHandler.js';
+import { RunHandler } from '@/services/tools/RunHandler.js';
+import { SendInputHandler } from '@/services/tools/SendInputHandler.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { StopAllHandler } from '@/services/tools/StopAllHandler.js';
 import { StopHandler } from '@/services/tools/StopHandler.js';
+import { WaitForLogHandler } from '@/services/tools/WaitForLogHandler.js';
+import { WaitHandler } from '@/services/tools/WaitHandler.js';
 
 export class DIContainer {
   constructor(private readonly container: Container) {}
@@ -37,8 +47,10 @@ export function buildContainer(props: {
 
   // Bind core services (Note: Bind ProcessController before BgProcessManager)
   container.bind<Logging>(LoggingTag).to(LoggingImpl).inSingletonScope();
+  container.bind<ProcessLogStore>(ProcessLogStoreTag).to(ProcessLogStoreImpl).inSingletonScope();
   container.bind<ProcessLogBuffer>(ProcessLogBufferTag).to(ProcessLogBufferImpl).inSingletonScope();
   container.bind<ProcessController>(ProcessControllerTag).to(ProcessControllerImpl).inSingletonScope();
+  container.bind<ReadinessChecker>(ReadinessCheckerTag).to(ReadinessCheckerImpl).inSingletonScope();
   container.bind<BgProcessManager>(BgProcessManagerTag).to(BgProcessManagerImpl).inSingletonScope();
 
   container.bind<StartHandler>(StartHandler).to(StartHandler).inSingletonScope();
@@ -46,8 +58,16 @@ export function buildContainer(props: {
   container.bind<RestartHandler>(RestartHandler).to(RestartHandler).inSingletonScope();
   container.bind<StopAllHandler>(StopAllHandler).to(StopAllHandler).inSingletonScope();
   container.bind<ListHandler>(ListHandler).to(ListHandler).inSingletonScope();
+  container.bind<ListDefinitionsHandler>(ListDefinitionsHandler).to(ListDefinitionsHandler).inSingletonScope();
+  container.bind<ListScriptsHandler>(ListScriptsHandler).to(ListScriptsHandler).inSingletonScope();
   container.bind<GetInfoHandler>(GetInfoHandler).to(GetInfoHandler).inSingletonScope();
   container.bind<GetLogsHandler>(GetLogsHandler).to(GetLogsHandler).inSingletonScope();
+  container.bind<GetErrorsHandler>(GetErrorsHandler).to(GetErrorsHandler).inSingletonScope();
+  container.bind<WaitForLogHandler>(WaitForLogHandler).to(WaitForLogHandler).inSingletonScope();
+  container.bind<WaitHandler>(WaitHandler).to(WaitHandler).inSingletonScope();
+  container.bind<RunHandler>(RunHandler).to(RunHandler).inSingletonScope();
+  container.bind<SendInputHandler>(SendInputHandler).to(SendInputHandler).inSingletonScope();
+  container.bind<ResizeHandler>(ResizeHandler).to(ResizeHandler).inSingletonScope();
 
   container.bind<BgManageServer>(BgManageServer).to(BgManageServer).inSingletonScope();
 
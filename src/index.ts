@@ -1,16 +1,18 @@
 #!/usr/bin/env node
 import { parseArgs } from 'node:util';
 import { buildContainer } from '@/container/DIContainer.js';
-import { loadConfig } from '@/services/ConfigProvider.js';
+import { CONFIG_OPTIONS, type ConfigOverrides, loadConfig } from '@/services/ConfigProvider.js';
 import { type BgManageServer } from '@/services/ManageBgServer.js';
 import { loadPackageInfo } from '@/services/PackageInfoProvider.js';
 
 /**
  * Main execution function
+ * @param configPath Configuration file given with --config
+ * @param overrides Configuration values given with command line flags
  */
-async function main() {
+async function main(configPath: string | undefined, overrides: ConfigOverrides) {
   try {
-    const configProvider = await loadConfig();
+    const configProvider = await loadConfig({ configPath, overrides });
     const packageInfoProvider = await loadPackageInfo();
 
     const container = buildContainer({
@@ -89,13 +91,29 @@ USAGE:
   npx ${packageInfoProvider.getName()} [options]
 
 OPTIONS:
+  --config, -c     Path to a configuration file (JSON or YAML)
   --version, -v    Show version information
   --help, -h       Show this help message
 
+CONFIGURATION OPTIONS:
+  Flags take precedence over environment variables, which take precedence over the configuration file.
+${CONFIG_OPTIONS.map(option => `  --${option.flag} <value>\n      ${option.description} [env: ${option.env}]`).join('\n')}
+
+CONFIGURATION:
+  Without --config, the first existing file of these is used:
+    .manage-bg.json, .manage-bg.yaml or .manage-bg.yml in the current directory
+    config.json, config.yaml or config.yml in $XDG_CONFIG_HOME/manage-bg (default: ~/.config/manage-bg)
+
 EXAMPLES:
   # Start the MCP server
   npx ${packageInfoProvider.getName()}
 
+  # Start the MCP server with a configuration file
+  npx ${packageInfoProvider.getName()} --config ./manage-bg.yaml
+
+  # Allow more processes and keep more log lines
+  npx ${packageInfoProvider.getName()} --max-processes 40 --max-log-lines 1000
+
   # Show version
   npx ${packageInfoProvider.getName()} --version
 
@@ -109,6 +127,14 @@ async function handleCliAndRun() {
     const { values } = parseArgs({
       args: process.argv.slice(2),
       options: {
+        ...Object.fromEntries(CONFIG_OPTIONS.map(option => [
+          option.flag,
+          { type: 'string' as const, multiple: option.type === 'list' },
+        ])),
+        config: {
+          type: 'string',
+          short: 'c',
+        },
         version: {
           type: 'boolean',
           short: 'v',
@@ -133,7 +159,19 @@ async function handleCliAndRun() {
       return;
     }
 
-    await main();
+    const flagValues: Record<string, unknown> = values;
+    const overrides: ConfigOverrides = {};
+    for (const option of CONFIG_OPTIONS) {
+      const value = flagValues[option.flag];
+      if (typeof value === 'string') {
+        overrides[option.key] = value;
+      }
+      else if (Array.isArray(value)) {
+        overrides[option.key] = value.filter(item => typeof item === 'string');
+      }
+    }
+
+    await main(values.config, overrides);
   }
   catch (error) {
     if (error instanceof Error && (
@@ -1,8 +1,37 @@
+/** Log levels in increasing order of severity */
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Content of a JSON log line (pino, bunyan, zap and similar loggers)
+ */
+export type StructuredLog = {
+  /** Normalized level */
+  level?: LogLevel;
+  /** Message */
+  msg?: string;
+  /** Time reported by the logger */
+  time?: Date;
+  /** Remaining fields */
+  fields: Record<string, unknown>;
+};
+
 export type LogEntry = {
-  /** Log type */
-  type: 'stdout' | 'stderr';
+  /** Sequence number, increasing monotonically per process */
+  seq: number;
+  /** Log type (`pty` for pseudo-terminal output, `stdin` for input sent to the process) */
+  type: 'stdout' | 'stderr' | 'pty' | 'stdin';
   /** Log content */
   line: string;
+  /** Original content before ANSI escape sequences and carriage-return redraws were removed (only when different) */
+  raw?: string;
+  /** Set when the line exceeded the maximum line length and was cut off */
+  truncated?: boolean;
+  /** Sequence number of the last line when the entry is a grouped multi-line event */
+  endSeq?: number;
+  /** Parsed content when the line is a JSON log record */
+  structured?: StructuredLog;
   /** Timestamp */
   timestamp: Date;
 };
@@ -14,4 +43,74 @@ export type LogData = {
   logs: ProcessLogs;
   /** Last updated time */
   lastUpdated: Date;
+  /** Cursor of the latest buffered entry, to be passed as `afterCursor` to read only newer entries */
+  nextCursor: number;
+  /** Number of entries after the requested cursor that were evicted from the buffer before being read */
+  evictedLines: number;
+  /** Number of entries after the requested cursor that were left out by the `lines` limit */
+  skippedLines: number;
+};
+
+export type LogStream = 'stdout' | 'stderr' | 'pty' | 'stdin' | 'both';
+
+export type LogQuery = {
+  /** Only include entries after this cursor */
+  afterCursor?: number;
+  /** Only include entries before this cursor, for paging back through history */
+  beforeCursor?: number;
+  /** Maximum number of entries to return, counted from the latest (all if omitted) */
+  lines?: number;
+  /** Regular expression that entries must match */
+  grep?: string;
+  /** Return entries that do not match `grep` instead */
+  invert?: boolean;
+  /** Match `grep` case-insensitively */
+  ignoreCase?: boolean;
+  /** Stream to include, `both` meaning all output streams (default: all streams including input) */
+  stream?: LogStream;
+  /** Only include entries logged at or after this time */
+  since?: Date;
+  /** Only include entries logged at or before this time */
+  until?: Date;
+  /** Number of context entries to include before each match */
+  before?: number;
+  /** Number of context entries to include after each match */
+  after?: number;
+  /** Return and match the original content including ANSI escape sequences */
+  raw?: boolean;
+  /** Only include JSON log records at or above this level */
+  level?: LogLevel;
+  /** Only include JSON log records whose fields equal these values (dotted paths address nested fields) */
+  fields?: Record<string, string | number | boolean>;
+  /** Group continuation lines such as stack frames into single events; `lines` then counts events */
+  group?: boolean;
+};
+
+/** Kind of a problem found in the logs, `stderr` being other output on stderr */
+export type ErrorKind = 'error' | 'warning' | 'stderr';
+
+/**
+ * Occurrences of the same error or warning message
+ */
+export type ErrorGroup = {
+  kind: ErrorKind;
+  stream: LogEntry['type'];
+  /** Latest occurrence of the message */
+  message: string;
+  /** Leading continuation lines of the latest occurrence, such as stack frames */
+  stack?: string[];
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  firstSeq: number;
+  lastSeq: number;
+};
+
+export type ErrorSummary = {
+  /** Number of occurrences of each kind */
+  totals: Record<ErrorKind, number>;
+  /** Groups in order of their latest occurrence */
+  groups: ErrorGroup[];
+  /** Number of older groups left out by the limit */
+  omittedGroups: number;
 };
@@ -1,7 +1,38 @@
+import { type ReadinessResult } from '@/models/Readiness.js';
+
 /**
  * Process execution status
  */
-export type ProcessStatus = 'running' | 'stopped' | 'error';
+export type ProcessStatus = 'starting' | 'running' | 'stopped' | 'error';
+
+/**
+ * Window size of a pseudo-terminal
+ */
+export interface TerminalSize {
+  readonly columns: number;
+  readonly rows: number;
+}
+
+/**
+ * A single execution of a managed process
+ * Restarts keep the process identity and add a new run
+ */
+export interface ProcessRun {
+  /** Run number, starting at 1 */
+  readonly run: number;
+  /** System process ID of this run */
+  readonly pid: number;
+  /** Run start time */
+  readonly startTime: Date;
+  /** Run end time (only when terminated) */
+  readonly endTime?: Date;
+  /** Exit code (only when terminated) */
+  readonly exitCode?: number;
+  /** Signal that terminated the run (only when terminated by a signal) */
+  readonly exitSignal?: NodeJS.Signals;
+  /** Log cursor when the run started; log lines of the run come after it */
+  readonly logCursor: number;
+}
 
 /**
  * Complete information for a managed process
@@ -9,6 +40,8 @@ export type ProcessStatus = 'running' | 'stopped' | 'error';
 export interface ManagedProcess {
   /** Unique process ID */
   readonly id: string;
+  /** Human-friendly process name (unique among live processes) */
+  readonly name?: string;
   /** System process ID */
   readonly pid: number;
   /** Execution command */
@@ -25,4 +58,23 @@ export interface ManagedProcess {
   readonly endTime?: Date;
   /** Exit code (only when terminated) */
   readonly exitCode?: number;
+  /** Signal that terminated the process (only when terminated by a signal) */
+  readonly exitSignal?: NodeJS.Signals;
+  /** Number of automatic restarts performed by the restart policy */
+  readonly restartCount: number;
+  /** Last automatic restart time */
+  readonly lastRestartTime?: Date;
+  /** Readiness check result (only when a readiness check was requested) */
+  readonly readiness?: ReadinessResult;
+  /** Terminal size (only when running under a pseudo-terminal) */
+  readonly tty?: TerminalSize;
+  /** Runs of the process in chronological order, the last one being the current run */
+  readonly runs: ProcessRun[];
+}
+
+/**
+ * Whether the process is still alive (starting or running)
+ */
+export function isActiveStatus(status: ProcessStatus): boolean {
+  return status === 'starting' || status === 'running';
 }
@@ -0,0 +1,24 @@
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+/**
+ * package.json of a project or one of its workspace packages
+ */
+export type ScriptPackage = {
+  /** Package name (undefined if package.json has none) */
+  name?: string;
+  /** Absolute package directory */
+  dir: string;
+  /** Script commands by script name */
+  scripts: Record<string, string>;
+};
+
+/**
+ * Scripts of a Node project and the package manager that runs them
+ */
+export type ProjectScripts = {
+  packageManager: PackageManager;
+  /** Lockfile the package manager was detected from (undefined if there is none) */
+  lockfile?: string;
+  /** Root package followed by the workspace packages */
+  packages: ScriptPackage[];
+};
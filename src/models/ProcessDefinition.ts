@@ -0,0 +1,20 @@
+import { type ReadinessCheck } from '@/models/Readiness.js';
+import { type RestartPolicy } from '@/models/RestartPolicy.js';
+
+/**
+ * Named process declared in the project, startable with `start` by its name
+ */
+export type ProcessDefinition = {
+  /** Definition name, also used as the process name */
+  name: string;
+  command: string;
+  args?: string[];
+  /** Absolute working directory */
+  cwd?: string;
+  env?: Record<string, string>;
+  readiness?: ReadinessCheck;
+  restartPolicy?: RestartPolicy;
+  description?: string;
+  /** File the definition was loaded from */
+  source: string;
+};
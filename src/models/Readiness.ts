@@ -0,0 +1,55 @@
+/**
+ * Readiness check specification for a starting process
+ */
+export type ReadinessCheck
+  = | {
+    /** Wait for a log line matching the pattern */
+    type: 'log';
+    /** Regular expression to match against stdout/stderr lines */
+    pattern: string;
+    /** Timeout in milliseconds */
+    timeoutMs?: number;
+  }
+  | {
+    /** Wait for a TCP port to accept connections */
+    type: 'port';
+    /** Port number */
+    port: number;
+    /** Host name (defaults to localhost) */
+    host?: string;
+    /** Timeout in milliseconds */
+    timeoutMs?: number;
+  }
+  | {
+    /** Wait for an HTTP URL to return a 2xx response */
+    type: 'http';
+    /** URL to request */
+    url: string;
+    /** Timeout in milliseconds */
+    timeoutMs?: number;
+  }
+  | {
+    /** Wait for a file to appear */
+    type: 'file';
+    /** File path (relative paths are resolved against the process cwd) */
+    path: string;
+    /** Timeout in milliseconds */
+    timeoutMs?: number;
+  };
+
+/**
+ * Readiness check outcome
+ */
+export type ReadinessState = 'ready' | 'timed_out' | 'exited';
+
+/**
+ * Result of a readiness check
+ */
+export type ReadinessResult = {
+  /** Check outcome */
+  state: ReadinessState;
+  /** Time spent waiting in milliseconds */
+  elapsedMs: number;
+  /** Log line that satisfied a log check */
+  matchedLine?: string;
+};
@@ -0,0 +1,20 @@
+/**
+ * Automatic restart mode
+ */
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+/**
+ * Automatic restart policy for a managed process
+ */
+export type RestartPolicy = {
+  /** When to restart the process after it exits */
+  mode: RestartMode;
+  /** Maximum consecutive restart attempts (default: 5) */
+  maxRetries?: number;
+  /** Initial backoff delay in milliseconds, doubled on each attempt (default: 1000) */
+  backoffMs?: number;
+  /** Upper bound of the backoff delay in milliseconds (default: 30000) */
+  maxBackoffMs?: number;
+  /** Run duration in milliseconds after which the attempt counter is reset (default: 60000) */
+  resetWindowMs?: number;
+};
@@ -2,32 +2,222 @@ import * as fs from 'fs';
 import { inject, injectable } from 'inversify';
 import { v4 as uuidv4 } from 'uuid';
 import { ErrorType, ProcessError } from '@/models/errors.js';
-import { type ManagedProcess, type ProcessStatus } from '@/models/ManagedProcess.js';
+import { type ErrorSummary, type LogData, type LogEntry, type LogQuery, type LogStream } from '@/models/LogData.js';
+import { isActiveStatus, type ManagedProcess, type ProcessRun, type ProcessStatus, type TerminalSize } from '@/models/ManagedProcess.js';
+import { type ProjectScripts, type ScriptPackage } from '@/models/PackageScript.js';
+import { type ProcessDefinition } from '@/models/ProcessDefinition.js';
+import { type ReadinessCheck } from '@/models/Readiness.js';
+import { type RestartPolicy } from '@/models/RestartPolicy.js';
+import { type ConfigProvider, ConfigProviderTag } from '@/services/ConfigProvider.js';
+import { ErrorSummarizer } from '@/services/ErrorSummarizer.js';
+import { LineDecoder } from '@/services/LineDecoder.js';
+import { type CapturedOutput, OutputCapture } from '@/services/OutputCapture.js';
+import { loadProjectScripts, scriptCommand } from '@/services/PackageScripts.js';
 import { type ProcessController, ProcessControllerTag, type ProcessSpawnResult } from '@/services/ProcessController.js';
 import { type ProcessLogBuffer, ProcessLogBufferTag } from '@/services/ProcessLogBuffer.js';
+import { type ReadinessChecker, ReadinessCheckerTag } from '@/services/ReadinessChecker.js';
 
 export const BgProcessManagerTag = Symbol.for('BgProcessManager');
 
+export type StartProcessConfig = {
+  command: string;
+  name?: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  readiness?: ReadinessCheck;
+  restartPolicy?: RestartPolicy;
+  /** Connect stdin to a pipe so that input can be sent with `sendInput` (default: ignore) */
+  stdin?: 'ignore' | 'pipe';
+  /** Run the command under a pseudo-terminal; stdin is always piped */
+  tty?: boolean;
+  /** Terminal columns (default: 80) */
+  columns?: number;
+  /** Terminal rows (default: 24) */
+  rows?: number;
+  /** Wait for a free slot instead of failing when the concurrent process limit is reached */
+  queue?: boolean;
+  /** Maximum time to wait in the queue in milliseconds (default: 30 seconds) */
+  queueTimeoutMs?: number;
+  /** Parse output lines that are JSON objects into level, message, time and fields (default: true) */
+  jsonLogs?: boolean;
+};
+
+/**
+ * Options for starting a process definition; given values replace those of the definition,
+ * except for `env`, which is merged into the definition's variables
+ */
+export type StartDefinitionOptions = Omit<StartProcessConfig, 'command'>;
+
+/**
+ * Options for starting a package.json script; `cwd` is the project directory and `args` are passed on to the script
+ */
+export type StartScriptOptions = StartDefinitionOptions & {
+  /** Workspace package whose script is started (default: the root package) */
+  package?: string;
+};
+
+export type StopProcessOptions = {
+  /** Signal sent first (default: SIGTERM) */
+  signal?: NodeJS.Signals;
+  /** Grace period before escalating to SIGKILL (default: configured termination timeout) */
+  timeoutMs?: number;
+  /** Send SIGKILL immediately */
+  force?: boolean;
+};
+
+export type StopProcessResult = {
+  processId: string;
+  /** Whether the process had already exited */
+  alreadyStopped: boolean;
+  /** Signal that ended the process (undefined when already stopped) */
+  signal?: NodeJS.Signals;
+  /** Whether SIGKILL was sent after the grace period */
+  escalated: boolean;
+  exitCode?: number;
+};
+
+export type SendInputOptions = {
+  /** Text to write */
+  text?: string;
+  /** Append a newline to the text (default: true) */
+  newline?: boolean;
+  /** Close stdin after writing */
+  close?: boolean;
+};
+
+export type WaitForLogOptions = {
+  /** Regular expression to wait for */
+  pattern: string;
+  /** Match the pattern case-insensitively */
+  ignoreCase?: boolean;
+  /** Stream to watch, `both` meaning all output streams (default: all output) */
+  stream?: LogStream;
+  /** Also check buffered lines after this cursor (default: start of the current run) */
+  afterCursor?: number;
+  /** Maximum waiting time in milliseconds (default: 30 seconds) */
+  timeoutMs?: number;
+  /** Number of lines before the match to return as context (default: 5) */
+  context?: number;
+};
+
+export type WaitForLogResult = {
+  state: 'matched' | 'exited' | 'timed_out';
+  elapsedMs: number;
+  /** Matching entry */
+  match?: LogEntry;
+  /** Entries preceding the match */
+  context: LogEntry[];
+  /** Cursor to continue waiting from: the matching entry, or the latest entry otherwise */
+  nextCursor: number;
+  /** Exit code when the process exited while waiting */
+  exitCode?: number;
+};
+
+export type WaitOptions = {
+  /** Wait for any or all of the processes to exit (default: all) */
+  mode?: 'any' | 'all';
+  /** Maximum waiting time in milliseconds (default: 30 seconds) */
+  timeoutMs?: number;
+  /** Number of latest log lines of the current run to return for each process (default: 10) */
+  tailLines?: number;
+};
+
+export type ProcessWaitStatus = {
+  process: ManagedProcess;
+  /** Whether the process has exited */
+  exited: boolean;
+  /** Run time of the current run, up to now if still running */
+  durationMs: number;
+  /** Latest log lines of the current run */
+  logTail: LogEntry[];
+};
+
+export type WaitResult = {
+  /** Whether the wait condition was met (false if the timeout elapsed first) */
+  completed: boolean;
+  elapsedMs: number;
+  processes: ProcessWaitStatus[];
+};
+
+export type RunProcessConfig = Pick<StartProcessConfig, 'command' | 'name' | 'args' | 'cwd' | 'env' | 'queue' | 'queueTimeoutMs'> & {
+  /** Maximum run time in milliseconds (default: 30 seconds) */
+  timeoutMs?: number;
+  /** Keep the process running in the background when the timeout elapses instead of stopping it */
+  backgroundOnTimeout?: boolean;
+  /** Maximum number of characters returned per stream, keeping the end of the output (default: 20000) */
+  maxOutputChars?: number;
+};
+
+export type RunProcessResult = {
+  process: ManagedProcess;
+  /** `timed_out` when the process was stopped at the timeout, `backgrounded` when it was kept running */
+  state: 'exited' | 'timed_out' | 'backgrounded';
+  durationMs: number;
+  stdout: CapturedOutput;
+  stderr: CapturedOutput;
+};
+
+export type ProcessLogQuery = LogQuery & {
+  /** Run to read logs of: a run number, or 0 for the current run and negative values for earlier runs */
+  run?: number;
+};
+
+export type ProcessErrorQuery = Pick<ProcessLogQuery, 'run' | 'since' | 'until'> & {
+  /** Maximum number of distinct messages to return, keeping the most recent */
+  limit?: number;
+};
+
 export interface BgProcessManager {
-  startProcess: (config: {
-    command: string;
-    args?: string[];
-    cwd?: string;
-    env?: Record<string, string>;
-  }) => Promise<ManagedProcess>;
-  stopProcess: (processId: string) => Promise<void>;
+  startProcess: (config: StartProcessConfig) => Promise<ManagedProcess>;
+  listDefinitions: () => ProcessDefinition[];
+  listDefinitionErrors: () => string[];
+  startDefinition: (definitionName: string, options?: StartDefinitionOptions) => Promise<ManagedProcess>;
+  listScripts: (cwd?: string) => Promise<ProjectScripts>;
+  startScript: (scriptName: string, options?: StartScriptOptions) => Promise<ManagedProcess>;
+  stopProcess: (processId: string, options?: StopProcessOptions) => Promise<StopProcessResult>;
   listProcesses: () => Promise<ManagedProcess[]>;
   getProcessInfo: (processId: string) => Promise<ManagedProcess | undefined>;
-  restartProcess: (processId: string) => Promise<string>; // Returns new process ID
+  restartProcess: (processId: string) => Promise<ManagedProcess>;
   stopAllProcesses: () => Promise<void>;
-  getProcessLogs: (processId: string, lines?: number) => Promise<{ logs: Array<{ type: 'stdout' | 'stderr'; line: string; timestamp: Date }>; lastUpdated: Date } | undefined>;
+  sendInput: (processId: string, options: SendInputOptions) => Promise<void>;
+  resizeTerminal: (processId: string, size: TerminalSize) => Promise<ManagedProcess>;
+  getProcessLogs: (processId: string, query?: ProcessLogQuery) => Promise<LogData | undefined>;
+  getProcessErrors: (processId: string, query?: ProcessErrorQuery) => Promise<ErrorSummary | undefined>;
+  waitForLog: (processId: string, options: WaitForLogOptions) => Promise<WaitForLogResult>;
+  waitForProcesses: (processIds: string[], options?: WaitOptions) => Promise<WaitResult>;
+  runProcess: (config: RunProcessConfig) => Promise<RunProcessResult>;
 }
 
 interface ProcessRecord {
   managedProcess: ManagedProcess;
   spawnResult: ProcessSpawnResult;
+  config: StartProcessConfig;
+  /** Consecutive automatic restart attempts since the last reset */
+  retryAttempt: number;
+  /** Set when the process was stopped explicitly, suppressing automatic restarts */
+  stopRequested: boolean;
+  /** Incremented when a new run starts spawning, so that a spawn overtaken by a later restart is discarded */
+  generation: number;
+  restartTimer?: NodeJS.Timeout;
+  /** Log the partial output lines of the current run that are still pending */
+  flushOutput?: () => void;
 }
 
+const DEFAULT_RESTART_MAX_RETRIES = 5;
+const DEFAULT_RESTART_BACKOFF_MS = 1000;
+const DEFAULT_RESTART_MAX_BACKOFF_MS = 30000;
+const DEFAULT_RESTART_RESET_WINDOW_MS = 60000;
+const FORCE_KILL_WAIT_MS = 2000;
+const MAX_RUN_HISTORY = 20;
+const DEFAULT_TERMINAL_COLUMNS = 80;
+const DEFAULT_TERMINAL_ROWS = 24;
+const DEFAULT_WAIT_TIMEOUT_MS = 30000;
+const DEFAULT_QUEUE_TIMEOUT_MS = 30000;
+const DEFAULT_WAIT_CONTEXT_LINES = 5;
+const DEFAULT_WAIT_TAIL_LINES = 10;
+const DEFAULT_RUN_OUTPUT_CHARS = 20000;
+
 /**
  * Process management service
  * Manages, monitors, and saves logs for processes
@@ -35,23 +225,39 @@ interface ProcessRecord {
 @injectable()
 export class BgProcessManagerImpl implements BgProcessManager {
   private readonly processes = new Map<string, ProcessRecord>();
+  private readonly slotWaiters = new Set<() => void>();
+  /** Callbacks notified when a process stops running */
+  private readonly exitWatchers = new Map<string, Set<() => void>>();
+  /** Starts that reserved a slot but have not been registered yet */
+  private pendingStarts = 0;
+  /** Names reserved by starts that have not been registered yet */
+  private readonly pendingNames = new Set<string>();
+  private readonly errorSummarizer = new ErrorSummarizer();
 
   constructor(
     @inject(ProcessLogBufferTag) private readonly logBuffer: ProcessLogBuffer,
     @inject(ProcessControllerTag) private readonly processController: ProcessController,
+    @inject(ReadinessCheckerTag) private readonly readinessChecker: ReadinessChecker,
+    @inject(ConfigProviderTag) private readonly configProvider: ConfigProvider,
   ) {}
 
   /**
    * Start a process
+   * When a readiness check is given, waits until it passes, times out, or the process exits
+   * @param config Process configuration
+   * @returns Managed process
+   */
+  async startProcess(config: StartProcessConfig): Promise<ManagedProcess> {
+    return await this.launchProcess(config, this.generateProcessId());
+  }
+
+  /**
+   * Start a process under a given ID, so that callers can subscribe to its output before it is spawned
    * @param config Process configuration
+   * @param processId Process ID
    * @returns Managed process
    */
-  async startProcess(config: {
-    command: string;
-    args?: string[];
-    cwd?: string;
-    env?: Record<string, string>;
-  }): Promise<ManagedProcess> {
+  private async launchProcess(config: StartProcessConfig, processId: string): Promise<ManagedProcess> {
     const args = config.args ?? [];
     const cwd = config.cwd ?? process.cwd();
 
@@ -63,41 +269,123 @@ export class BgProcessManagerImpl implements BgProcessManager {
       );
     }
 
-    const processId = this.generateProcessId();
+    if (config.readiness) {
+      this.readinessChecker.validate(config.readiness);
+    }
+
+    const tty: TerminalSize | undefined = config.tty === true
+      ? { columns: config.columns ?? DEFAULT_TERMINAL_COLUMNS, rows: config.rows ?? DEFAULT_TERMINAL_ROWS }
+      : undefined;
 
+    await this.acquireSlot(config.queue === true, config.queueTimeoutMs);
+
+    let spawnResult: ProcessSpawnResult;
+    let releaseName: (() => void) | undefined;
     try {
-      const spawnResult = await this.processController.spawn({
-        command: config.command,
-        args,
-        cwd,
-        env: config.env,
-      });
+      if (config.name !== undefined) {
+        releaseName = this.reserveName(config.name);
+      }
 
-      const managedProcess: ManagedProcess = {
-        id: processId,
+      try {
+        spawnResult = await this.processController.spawn({
+          command: config.command,
+          args,
+          cwd,
+          env: config.env,
+          stdin: config.stdin,
+          tty,
+        });
+      }
+      catch (error) {
+        throw new ProcessError(
+          ErrorType.SPAWN_FAILED,
+          `Failed to spawn process: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    finally {
+      releaseName?.();
+      this.releaseSlotReservation();
+    }
+
+    const startTime = new Date();
+    const managedProcess: ManagedProcess = {
+      id: processId,
+      name: config.name,
+      pid: spawnResult.pid,
+      command: config.command,
+      args,
+      cwd,
+      status: config.readiness ? 'starting' : 'running',
+      startTime,
+      restartCount: 0,
+      tty,
+      runs: [{
+        run: 1,
         pid: spawnResult.pid,
-        command: config.command,
-        args,
-        cwd,
-        status: 'running',
-        startTime: new Date(),
-      };
+        startTime,
+        logCursor: this.logBuffer.getCursor(processId),
+      }],
+    };
 
-      this.processes.set(processId, {
-        managedProcess,
-        spawnResult,
-      });
+    this.logBuffer.configureProcess(processId, { parseJson: config.jsonLogs !== false });
+    this.processes.set(processId, {
+      managedProcess,
+      spawnResult,
+      config,
+      retryAttempt: 0,
+      stopRequested: false,
+      generation: 0,
+    });
 
-      this.setupEventHandlers(processId, spawnResult);
+    this.setupEventHandlers(processId, spawnResult);
 
-      return managedProcess;
+    if (config.readiness) {
+      await this.waitForReadiness(processId, spawnResult, cwd, config.readiness);
     }
-    catch (error) {
-      throw new ProcessError(
-        ErrorType.SPAWN_FAILED,
-        `Failed to spawn process: ${error instanceof Error ? error.message : String(error)}`,
-      );
+
+    return this.processes.get(processId)?.managedProcess ?? managedProcess;
+  }
+
+  /**
+   * Wait for the readiness check and record its result
+   * @param processId Process ID
+   * @param spawnResult Process spawn result
+   * @param cwd Working directory
+   * @param check Readiness check
+   */
+  private async waitForReadiness(
+    processId: string,
+    spawnResult: ProcessSpawnResult,
+    cwd: string,
+    check: ReadinessCheck,
+  ): Promise<void> {
+    const exitController = new AbortController();
+    spawnResult.onExit(() => {
+      exitController.abort();
+    });
+    spawnResult.onError(() => {
+      exitController.abort();
+    });
+
+    const readiness = await this.readinessChecker.waitUntilReady({
+      processId,
+      cwd,
+      check,
+      signal: exitController.signal,
+      logCursor: this.processes.get(processId)?.managedProcess.runs.at(-1)?.logCursor,
+    });
+
+    const record = this.processes.get(processId);
+    if (record?.managedProcess.pid !== spawnResult.pid) {
+      return;
     }
+
+    record.managedProcess = {
+      ...record.managedProcess,
+      status: record.managedProcess.status === 'starting' ? 'running' : record.managedProcess.status,
+      readiness,
+    };
   }
 
   /**
@@ -106,43 +394,416 @@ export class BgProcessManagerImpl implements BgProcessManager {
    * @param spawnResult Process spawn result
    */
   private setupEventHandlers(processId: string, spawnResult: ProcessSpawnResult): void {
+    // Ignore late events from a previous run after an automatic restart
+    const isCurrentRun = () => this.processes.get(processId)?.managedProcess.pid === spawnResult.pid;
+    const record = this.processes.get(processId);
+    const isTerminal = record?.managedProcess.tty !== undefined;
+    const idleFlushMs = this.configProvider.getPartialLineFlushMs();
+    const maxLineLength = this.configProvider.getMaxLogLineLength();
+
+    const stdout = new LineDecoder((data) => {
+      if (isTerminal) {
+        this.logBuffer.appendPty(processId, data);
+      }
+      else {
+        this.logBuffer.appendStdout(processId, data);
+      }
+    }, idleFlushMs, maxLineLength);
+    const stderr = new LineDecoder((data) => {
+      this.logBuffer.appendStderr(processId, data);
+    }, idleFlushMs, maxLineLength);
+    const flushOutput = () => {
+      stdout.flush();
+      stderr.flush();
+    };
+    if (record) {
+      record.flushOutput = flushOutput;
+    }
+
     spawnResult.onStdout((data) => {
-      this.logBuffer.appendStdout(processId, data.toString());
+      stdout.write(data);
     });
 
     spawnResult.onStderr((data) => {
-      this.logBuffer.appendStderr(processId, data.toString());
+      stderr.write(data);
     });
 
-    spawnResult.onExit((code) => {
+    spawnResult.onExit((code, signal) => {
+      flushOutput();
+      if (!isCurrentRun()) {
+        return;
+      }
       const status: ProcessStatus = code === 0 ? 'stopped' : 'error';
-      this.updateProcessStatus(processId, status, code ?? undefined);
+      this.updateProcessStatus(processId, status, code ?? undefined, signal ?? undefined);
+      this.scheduleAutoRestart(processId, code);
     });
 
     spawnResult.onError((error) => {
+      if (!isCurrentRun()) {
+        return;
+      }
       this.logBuffer.appendStderr(processId, `Process error: ${error.message}\n`);
       this.updateProcessStatus(processId, 'error');
     });
   }
 
+  /**
+   * Schedule an automatic restart according to the restart policy
+   * @param processId Process ID
+   * @param exitCode Exit code of the finished run (null when killed by a signal)
+   */
+  private scheduleAutoRestart(processId: string, exitCode: number | null): void {
+    const record = this.processes.get(processId);
+    const policy = record?.config.restartPolicy;
+    if (!record || !policy || record.stopRequested) {
+      return;
+    }
+
+    if (policy.mode === 'never' || (policy.mode === 'on-failure' && exitCode === 0)) {
+      return;
+    }
+
+    const endTime = record.managedProcess.endTime ?? new Date();
+    const runDurationMs = endTime.getTime() - record.managedProcess.startTime.getTime();
+    if (runDurationMs >= (policy.resetWindowMs ?? DEFAULT_RESTART_RESET_WINDOW_MS)) {
+      record.retryAttempt = 0;
+    }
+
+    if (record.retryAttempt >= (policy.maxRetries ?? DEFAULT_RESTART_MAX_RETRIES)) {
+      return;
+    }
+
+    const delayMs = Math.min(
+      (policy.backoffMs ?? DEFAULT_RESTART_BACKOFF_MS) * 2 ** record.retryAttempt,
+      policy.maxBackoffMs ?? DEFAULT_RESTART_MAX_BACKOFF_MS,
+    );
+    record.retryAttempt += 1;
+
+    record.restartTimer = setTimeout(() => {
+      record.restartTimer = undefined;
+      void this.respawnProcess(processId);
+    }, delayMs);
+  }
+
+  /**
+   * Spawn a new run for an existing process record, keeping its process ID
+   * @param processId Process ID
+   */
+  private async respawnProcess(processId: string): Promise<void> {
+    const record = this.processes.get(processId);
+    if (!record || record.stopRequested) {
+      return;
+    }
+
+    const generation = ++record.generation;
+    const { config, managedProcess } = record;
+
+    let spawnResult: ProcessSpawnResult;
+    try {
+      spawnResult = await this.processController.spawn({
+        command: config.command,
+        args: managedProcess.args,
+        cwd: managedProcess.cwd,
+        env: config.env,
+        stdin: config.stdin,
+        tty: managedProcess.tty,
+      });
+    }
+    catch (error) {
+      this.logBuffer.appendStderr(processId, `Process restart failed: ${error instanceof Error ? error.message : String(error)}\n`);
+      this.scheduleAutoRestart(processId, null);
+      return;
+    }
+
+    // The process may have been stopped, removed or restarted while spawning
+    if (this.processes.get(processId) !== record || record.stopRequested || record.generation !== generation) {
+      this.processController.kill(spawnResult.pid, 'SIGKILL');
+      return;
+    }
+
+    this.beginRun(record, spawnResult, true);
+
+    this.setupEventHandlers(processId, spawnResult);
+
+    if (config.readiness) {
+      await this.waitForReadiness(processId, spawnResult, managedProcess.cwd, config.readiness);
+    }
+  }
+
+  /**
+   * Record a new run of an existing process
+   * @param record Process record
+   * @param spawnResult Process spawn result of the new run
+   * @param automatic Whether the run was started by the restart policy
+   */
+  private beginRun(record: ProcessRecord, spawnResult: ProcessSpawnResult, automatic: boolean): void {
+    const { managedProcess } = record;
+    const now = new Date();
+    const previousRun = managedProcess.runs.at(-1)?.run ?? 0;
+
+    // Output of the previous run must not be attributed to the new one
+    record.flushOutput?.();
+    record.spawnResult = spawnResult;
+    record.managedProcess = {
+      ...managedProcess,
+      pid: spawnResult.pid,
+      status: record.config.readiness ? 'starting' : 'running',
+      startTime: now,
+      endTime: undefined,
+      exitCode: undefined,
+      exitSignal: undefined,
+      readiness: undefined,
+      restartCount: automatic ? managedProcess.restartCount + 1 : managedProcess.restartCount,
+      lastRestartTime: automatic ? now : managedProcess.lastRestartTime,
+      runs: [
+        ...managedProcess.runs,
+        {
+          run: previousRun + 1,
+          pid: spawnResult.pid,
+          startTime: now,
+          logCursor: this.logBuffer.getCursor(managedProcess.id),
+        },
+      ].slice(-MAX_RUN_HISTORY),
+    };
+  }
+
+  /**
+   * Cancel a pending automatic restart
+   * @param record Process record
+   */
+  private cancelAutoRestart(record: ProcessRecord): void {
+    if (record.restartTimer !== undefined) {
+      clearTimeout(record.restartTimer);
+      record.restartTimer = undefined;
+      this.notifySlotWaiters();
+    }
+  }
+
   /**
    * Update process status
    * @param processId Process ID
    * @param status New status
    * @param exitCode Exit code (optional)
+   * @param exitSignal Signal that terminated the process (optional)
    */
-  private updateProcessStatus(processId: string, status: ProcessStatus, exitCode?: number): void {
+  private updateProcessStatus(processId: string, status: ProcessStatus, exitCode?: number, exitSignal?: NodeJS.Signals): void {
     const record = this.processes.get(processId);
     if (!record) {
       return;
     }
 
+    const endTime = isActiveStatus(status) ? undefined : new Date();
+    const runs = record.managedProcess.runs;
+    const currentRun = runs.at(-1);
+
     record.managedProcess = {
       ...record.managedProcess,
       status,
       exitCode,
-      endTime: status !== 'running' ? new Date() : undefined,
+      exitSignal,
+      endTime,
+      runs: currentRun
+        ? [...runs.slice(0, -1), { ...currentRun, endTime, exitCode, exitSignal }]
+        : runs,
     };
+
+    if (!isActiveStatus(status)) {
+      this.notifySlotWaiters();
+      for (const watcher of [...(this.exitWatchers.get(processId) ?? [])]) {
+        watcher();
+      }
+    }
+  }
+
+  /**
+   * Watch for a process to stop running
+   * @param processId Process ID
+   * @param watcher Callback notified when the process stops
+   * @returns Function to stop watching
+   */
+  private watchExit(processId: string, watcher: () => void): () => void {
+    let watchers = this.exitWatchers.get(processId);
+    if (!watchers) {
+      watchers = new Set();
+      this.exitWatchers.set(processId, watchers);
+    }
+    watchers.add(watcher);
+
+    return () => {
+      const current = this.exitWatchers.get(processId);
+      current?.delete(watcher);
+      if (current?.size === 0) {
+        this.exitWatchers.delete(processId);
+      }
+    };
+  }
+
+  /**
+   * Reserve a process slot, respecting the concurrent process limit
+   * @param queue Whether to wait for a free slot instead of failing
+   * @param queueTimeoutMs Maximum waiting time in milliseconds
+   */
+  private async acquireSlot(queue: boolean, queueTimeoutMs = DEFAULT_QUEUE_TIMEOUT_MS): Promise<void> {
+    const maxProcesses = this.configProvider.getMaxConcurrentProcesses();
+    // A finite wait, so that a start the client has given up on does not spawn a process later
+    const deadline = Date.now() + queueTimeoutMs;
+
+    while (this.countOccupiedSlots() >= maxProcesses) {
+      if (!queue) {
+        throw new ProcessError(
+          ErrorType.RESOURCE_EXHAUSTED,
+          `Maximum concurrent processes reached (${maxProcesses}). Running processes: ${this.describeActiveProcesses()}`,
+        );
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new ProcessError(
+          ErrorType.TIMEOUT_ERROR,
+          `Timed out after ${queueTimeoutMs}ms waiting for a free process slot (limit: ${maxProcesses})`,
+        );
+      }
+
+      await this.waitForSlotChange(remainingMs);
+    }
+
+    this.pendingStarts += 1;
+  }
+
+  /**
+   * Release a slot reservation once the start has been registered or has failed
+   */
+  private releaseSlotReservation(): void {
+    this.pendingStarts -= 1;
+    this.notifySlotWaiters();
+  }
+
+  /**
+   * Count slots held by live processes, pending automatic restarts and reserved starts
+   * @returns Number of occupied slots
+   */
+  private countOccupiedSlots(): number {
+    const occupied = Array.from(this.processes.values())
+      .filter(r => isActiveStatus(r.managedProcess.status) || r.restartTimer !== undefined)
+      .length;
+    return occupied + this.pendingStarts;
+  }
+
+  /**
+   * Describe live processes for error messages
+   * @returns Process descriptions
+   */
+  private describeActiveProcesses(): string {
+    return Array.from(this.processes.values())
+      .filter(r => isActiveStatus(r.managedProcess.status) || r.restartTimer !== undefined)
+      .map(({ managedProcess: p }) => {
+        const label = p.name !== undefined ? `${p.id} [${p.name}]` : p.id;
+        return `${label} (${[p.command, ...p.args].join(' ')})`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Wait until a slot may have been freed
+   * @param timeoutMs Maximum waiting time in milliseconds
+   */
+  private async waitForSlotChange(timeoutMs?: number): Promise<void> {
+    await new Promise<void>((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+      const waiter = () => {
+        clearTimeout(timer);
+        this.slotWaiters.delete(waiter);
+        resolve();
+      };
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(waiter, timeoutMs);
+      }
+      this.slotWaiters.add(waiter);
+    });
+  }
+
+  /**
+   * Wake up starts waiting in the queue so that they re-check the limit
+   */
+  private notifySlotWaiters(): void {
+    for (const waiter of [...this.slotWaiters]) {
+      waiter();
+    }
+  }
+
+  /**
+   * Validate that a process name is usable and not taken by a live process
+   * @param name Process name
+   */
+  private validateName(name: string, excludeId?: string): void {
+    if (name.trim().length === 0) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        'Process name must not be empty',
+      );
+    }
+
+    const conflict = Array.from(this.processes.values()).find(r =>
+      r.managedProcess.name === name
+      && r.managedProcess.id !== excludeId
+      && (isActiveStatus(r.managedProcess.status) || r.restartTimer !== undefined),
+    );
+    if (conflict) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Process name already in use: ${name} (${conflict.managedProcess.id})`,
+        conflict.managedProcess.id,
+      );
+    }
+    if (this.pendingNames.has(name)) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Process name already in use: ${name} (starting)`,
+      );
+    }
+  }
+
+  /**
+   * Validate a process name and reserve it until the process is registered
+   * The record is only registered after spawning, so concurrent starts would otherwise both pass validation
+   * @param name Process name
+   * @param excludeId Process ID allowed to hold the name
+   * @returns Function releasing the reservation
+   */
+  private reserveName(name: string, excludeId?: string): () => void {
+    this.validateName(name, excludeId);
+    this.pendingNames.add(name);
+    return () => {
+      this.pendingNames.delete(name);
+    };
+  }
+
+  /**
+   * Find a process record by ID or name
+   * A name resolves to the live process with that name, or else the most recently started one
+   * @param processId Process ID or name
+   * @returns Process record (undefined if not found)
+   */
+  private findRecord(processId: string): ProcessRecord | undefined {
+    const byId = this.processes.get(processId);
+    if (byId) {
+      return byId;
+    }
+
+    const byName = Array.from(this.processes.values())
+      .filter(r => r.managedProcess.name === processId);
+    return byName.find(r => isActiveStatus(r.managedProcess.status))
+      ?? byName.sort((a, b) => b.managedProcess.startTime.getTime() - a.managedProcess.startTime.getTime())[0];
+  }
+
+  /**
+   * Check whether a process or a descendant left in its process group is still running
+   * Descendants can outlive the process, for example a server started in the background by a shell
+   * @param record Process record
+   * @returns Whether any process of the tree is running
+   */
+  private isTreeAlive(record: ProcessRecord): boolean {
+    return isActiveStatus(record.managedProcess.status) || this.processController.isAlive(record.managedProcess.pid);
   }
 
   /**
@@ -164,12 +825,129 @@ export class BgProcessManagerImpl implements BgProcessManager {
     }
   }
 
+  /**
+   * List the process definitions of the project
+   * @returns Process definitions
+   */
+  listDefinitions(): ProcessDefinition[] {
+    return this.configProvider.getProcessDefinitions();
+  }
+
+  /**
+   * List problems with Procfile entries that were skipped when loading the definitions
+   * @returns Error messages
+   */
+  listDefinitionErrors(): string[] {
+    return this.configProvider.getProcessDefinitionErrors();
+  }
+
+  /**
+   * Start a process definition under its name
+   * @param definitionName Definition name
+   * @param options Values replacing those of the definition
+   * @returns Managed process
+   */
+  async startDefinition(definitionName: string, options: StartDefinitionOptions = {}): Promise<ManagedProcess> {
+    const definitions = this.listDefinitions();
+    const definition = definitions.find(candidate => candidate.name === definitionName);
+    if (!definition) {
+      const available = definitions.map(candidate => candidate.name).join(', ');
+      const skipped = this.listDefinitionErrors().map(error => `; ${error}`).join('');
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Unknown process definition: ${definitionName} (${available ? `available: ${available}` : 'no definitions found'})${skipped}`,
+      );
+    }
+
+    const { args, cwd, env, name, readiness, restartPolicy, ...config } = options;
+    return await this.startProcess({
+      ...config,
+      command: definition.command,
+      args: args ?? definition.args,
+      cwd: cwd ?? definition.cwd,
+      env: definition.env !== undefined || env !== undefined ? { ...definition.env, ...env } : undefined,
+      name: name ?? definition.name,
+      readiness: readiness ?? definition.readiness,
+      restartPolicy: restartPolicy ?? definition.restartPolicy,
+    });
+  }
+
+  /**
+   * List the package.json scripts of a Node project and its workspace packages
+   * @param cwd Project directory (default: current working directory)
+   * @returns Project scripts
+   */
+  async listScripts(cwd?: string): Promise<ProjectScripts> {
+    return await loadProjectScripts(cwd ?? process.cwd());
+  }
+
+  /**
+   * Start a package.json script with the package manager of the project
+   * @param scriptName Script name
+   * @param options Start options
+   * @returns Managed process, named after the script (prefixed with the package name for workspace packages,
+   * or when another process uses the script name) unless those names are taken
+   */
+  async startScript(scriptName: string, options: StartScriptOptions = {}): Promise<ManagedProcess> {
+    const { package: packageName, args, cwd, name, ...config } = options;
+    const project = await this.listScripts(cwd);
+    const scriptPackage = packageName === undefined
+      ? project.packages[0]
+      : project.packages.find(candidate => candidate.name === packageName);
+    if (!scriptPackage) {
+      const available = project.packages.flatMap(candidate => candidate.name ?? []).join(', ');
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Unknown workspace package: ${packageName} (${available ? `available: ${available}` : 'no packages found'})`,
+      );
+    }
+    if (!Object.hasOwn(scriptPackage.scripts, scriptName)) {
+      const available = Object.keys(scriptPackage.scripts).join(', ');
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Unknown script: ${scriptName} in ${scriptPackage.dir}/package.json (${available ? `available: ${available}` : 'no scripts found'})`,
+      );
+    }
+
+    return await this.startProcess({
+      ...config,
+      ...scriptCommand(project.packageManager, scriptName, args),
+      cwd: scriptPackage.dir,
+      name: name ?? this.defaultScriptName(scriptName, scriptPackage, packageName !== undefined),
+    });
+  }
+
+  /**
+   * Choose a free default name for a script process
+   * Scripts such as `dev` exist in many projects, so a taken name falls back to one qualified by the package name
+   * @param scriptName Script name
+   * @param scriptPackage Package of the script
+   * @param isWorkspacePackage Whether the package is a workspace package rather than the root package
+   * @returns Process name (undefined if every candidate is taken)
+   */
+  private defaultScriptName(scriptName: string, scriptPackage: ScriptPackage, isWorkspacePackage: boolean): string | undefined {
+    const qualified = scriptPackage.name !== undefined ? [`${scriptPackage.name}:${scriptName}`] : [];
+    const candidates = isWorkspacePackage ? qualified : [scriptName, ...qualified];
+    return candidates.find((candidate) => {
+      try {
+        this.validateName(candidate);
+        return true;
+      }
+      catch {
+        return false;
+      }
+    });
+  }
+
   /**
    * Stop a process
-   * @param processId Process ID
+   * Sends the signal, waits for the grace period, and escalates to SIGKILL if the process tree is still alive
+   * @param processId Process ID or name
+   * @param options Stop options
+   * @returns Stop result
    */
-  async stopProcess(processId: string): Promise<void> {
-    const record = this.processes.get(processId);
+  async stopProcess(processId: string, options: StopProcessOptions = {}): Promise<StopProcessResult> {
+    const record = this.findRecord(processId);
     if (!record) {
       throw new ProcessError(
         ErrorType.PROCESS_NOT_FOUND,
@@ -177,37 +955,70 @@ export class BgProcessManagerImpl implements BgProcessManager {
       );
     }
 
-    if (record.managedProcess.status !== 'running') {
-      return; // Already stopped
+    record.stopRequested = true;
+    this.cancelAutoRestart(record);
+
+    const { id, pid } = record.managedProcess;
+
+    if (!this.isTreeAlive(record)) {
+      return { processId: id, alreadyStopped: true, escalated: false }; // Already stopped
     }
 
+    const signal: NodeJS.Signals = options.force === true ? 'SIGKILL' : options.signal ?? 'SIGTERM';
+    const timeoutMs = options.timeoutMs ?? this.configProvider.getProcessTerminationTimeoutMs();
+    let escalated = false;
+    let stillAlive: boolean;
+
     try {
-      const killed = this.processController.kill(record.managedProcess.pid);
-      if (!killed) {
-        // Try SIGKILL if SIGTERM fails
-        this.processController.kill(record.managedProcess.pid, true);
+      this.processController.kill(pid, signal);
+
+      // Wait for process tree to exit
+      let exited = await this.processController.waitForExit(pid, timeoutMs);
+
+      // Escalate for processes that ignored the signal, including orphaned descendants
+      if (signal !== 'SIGKILL' && !exited) {
+        escalated = true;
+        this.processController.kill(pid, 'SIGKILL');
+        exited = await this.processController.waitForExit(pid, FORCE_KILL_WAIT_MS);
       }
 
-      // Wait for process to exit
-      await this.processController.waitForExit(record.managedProcess.pid);
+      stillAlive = !exited;
     }
     catch (error) {
-      this.updateProcessStatus(processId, 'error');
+      this.updateProcessStatus(id, 'error');
       throw new ProcessError(
         ErrorType.TERMINATION_FAILED,
         `Failed to stop process: ${error instanceof Error ? error.message : String(error)}`,
-        processId,
+        id,
       );
     }
+
+    if (stillAlive) {
+      throw new ProcessError(
+        ErrorType.TERMINATION_FAILED,
+        `Process ${pid} is still alive after SIGKILL`,
+        id,
+      );
+    }
+
+    const current = this.processes.get(id)?.managedProcess ?? record.managedProcess;
+    return {
+      processId: id,
+      alreadyStopped: false,
+      signal: current.exitSignal ?? (escalated ? 'SIGKILL' : signal),
+      escalated,
+      exitCode: current.exitCode,
+    };
   }
 
   /**
    * Restart a process
-   * @param processId Process ID
-   * @returns New process ID
+   * The process keeps its ID and log history, and the new execution is added as a run
+   * @param processId Process ID or name
+   * @returns Restarted process
    */
-  async restartProcess(processId: string): Promise<string> {
-    const record = this.processes.get(processId);
+  async restartProcess(processId: string): Promise<ManagedProcess> {
+    const record = this.findRecord(processId);
     if (!record) {
       throw new ProcessError(
         ErrorType.PROCESS_NOT_FOUND,
@@ -215,31 +1026,80 @@ export class BgProcessManagerImpl implements BgProcessManager {
       );
     }
 
-    // Save original process configuration
-    const config = {
-      command: record.managedProcess.command,
-      args: record.managedProcess.args,
-      cwd: record.managedProcess.cwd,
-    };
+    const { id, name, command, args, cwd } = record.managedProcess;
+    const generation = ++record.generation;
 
     // Stop process (skip if already stopped)
-    if (record.managedProcess.status === 'running') {
-      await this.stopProcess(processId);
+    if (this.isTreeAlive(record)) {
+      await this.stopProcess(id);
     }
+    this.cancelAutoRestart(record);
+
+    await this.acquireSlot(false);
 
-    this.processes.delete(processId);
-    this.logBuffer.clearLogs(processId);
+    let spawnResult: ProcessSpawnResult;
+    let releaseName: (() => void) | undefined;
+    try {
+      if (name !== undefined) {
+        releaseName = this.reserveName(name, id);
+      }
 
-    const newProcess = await this.startProcess(config);
-    return newProcess.id;
+      try {
+        spawnResult = await this.processController.spawn({
+          command,
+          args,
+          cwd,
+          env: record.config.env,
+          stdin: record.config.stdin,
+          tty: record.managedProcess.tty,
+        });
+      }
+      catch (error) {
+        throw new ProcessError(
+          ErrorType.SPAWN_FAILED,
+          `Failed to restart process: ${error instanceof Error ? error.message : String(error)}`,
+          id,
+        );
+      }
+    }
+    finally {
+      releaseName?.();
+      this.releaseSlotReservation();
+    }
+
+    // A later restart takes over, so this run must not be left running untracked
+    if (record.generation !== generation) {
+      this.processController.kill(spawnResult.pid, 'SIGKILL');
+      throw new ProcessError(
+        ErrorType.CONCURRENT_ACCESS,
+        `Process was restarted again while restarting: ${id}`,
+        id,
+      );
+    }
+
+    record.stopRequested = false;
+    record.retryAttempt = 0;
+    this.beginRun(record, spawnResult, false);
+    this.setupEventHandlers(id, spawnResult);
+
+    if (record.config.readiness) {
+      await this.waitForReadiness(id, spawnResult, cwd, record.config.readiness);
+    }
+
+    return record.managedProcess;
   }
 
   /**
    * Stop all processes
    */
   async stopAllProcesses(): Promise<void> {
+    for (const record of this.processes.values()) {
+      record.stopRequested = true;
+      this.cancelAutoRestart(record);
+    }
+
     const runningProcesses = Array.from(this.processes.values())
-      .filter(r => r.managedProcess.status === 'running')
+      .filter(r => this.isTreeAlive(r))
       .map(r => r.managedProcess.id);
 
     const stopPromises = runningProcesses.map(async (id) => {
@@ -248,6 +1108,112 @@ export class BgProcessManagerImpl implements BgProcessManager {
     await Promise.allSettled(stopPromises);
   }
 
+  /**
+   * Send input to the stdin of a process
+   * The input is recorded in the process logs as `stdin` entries
+   * @param processId Process ID or name
+   * @param options Input to send
+   */
+  async sendInput(processId: string, options: SendInputOptions): Promise<void> {
+    const record = this.findRecord(processId);
+    if (!record) {
+      throw new ProcessError(
+        ErrorType.PROCESS_NOT_FOUND,
+        `Process not found: ${processId}`,
+      );
+    }
+
+    const { id } = record.managedProcess;
+
+    if (record.config.stdin !== 'pipe' && record.managedProcess.tty === undefined) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `stdin is not enabled for process ${id}; start it with stdin: 'pipe' or tty: true`,
+        id,
+      );
+    }
+
+    if (!isActiveStatus(record.managedProcess.status)) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Process is not running: ${id}`,
+        id,
+      );
+    }
+
+    if (options.text !== undefined) {
+      const data = options.newline === false ? options.text : `${options.text}\n`;
+      try {
+        await record.spawnResult.writeStdin(data);
+      }
+      catch (error) {
+        throw new ProcessError(
+          ErrorType.INTERNAL_ERROR,
+          `Failed to write to stdin: ${error instanceof Error ? error.message : String(error)}`,
+          id,
+        );
+      }
+      // Log a pending prompt before the input that answers it
+      record.flushOutput?.();
+      this.logBuffer.appendStdin(id, data);
+    }
+
+    if (options.close === true) {
+      record.spawnResult.closeStdin();
+    }
+  }
+
+  /**
+   * Resize the pseudo-terminal of a process started with `tty`
+   * @param processId Process ID or name
+   * @param size New terminal size
+   * @returns Updated process
+   */
+  async resizeTerminal(processId: string, size: TerminalSize): Promise<ManagedProcess> {
+    const record = this.findRecord(processId);
+    if (!record) {
+      throw new ProcessError(
+        ErrorType.PROCESS_NOT_FOUND,
+        `Process not found: ${processId}`,
+      );
+    }
+
+    const { id, pid } = record.managedProcess;
+
+    if (record.managedProcess.tty === undefined) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Process ${id} is not running under a pseudo-terminal; start it with tty: true`,
+        id,
+      );
+    }
+
+    if (!isActiveStatus(record.managedProcess.status)) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Process is not running: ${id}`,
+        id,
+      );
+    }
+
+    try {
+      await this.processController.resize(pid, size);
+    }
+    catch (error) {
+      throw new ProcessError(
+        ErrorType.INTERNAL_ERROR,
+        `Failed to resize terminal: ${error instanceof Error ? error.message : String(error)}`,
+        id,
+      );
+    }
+
+    record.managedProcess = {
+      ...record.managedProcess,
+      tty: size,
+    };
+    return record.managedProcess;
+  }
+
   /**
    * Get process list
    * @returns Array of managed processes
@@ -258,33 +1224,311 @@ export class BgProcessManagerImpl implements BgProcessManager {
 
   /**
    * Get process information
-   * @param processId Process ID
+   * @param processId Process ID or name
    * @returns Managed process (undefined if not found)
    */
   async getProcessInfo(processId: string): Promise<ManagedProcess | undefined> {
-    const record = this.processes.get(processId);
+    const record = this.findRecord(processId);
     return record?.managedProcess;
   }
 
   /**
    * Get process logs
-   * @param processId Process ID
-   * @param lines Number of lines to retrieve (all if omitted)
+   * @param processId Process ID or name
+   * @param query Search conditions (latest logs of all runs if omitted)
    * @returns Log data (undefined if process not found)
    */
-  async getProcessLogs(processId: string, lines?: number): Promise<{ logs: Array<{ type: 'stdout' | 'stderr'; line: string; timestamp: Date }>; lastUpdated: Date } | undefined> {
-    const record = this.processes.get(processId);
+  async getProcessLogs(processId: string, query: ProcessLogQuery = {}): Promise<LogData | undefined> {
+    const record = this.findRecord(processId);
     if (!record) {
       return undefined;
     }
 
-    const logData = this.logBuffer.getLatestLogs(processId, lines);
+    const { run, ...logQuery } = query;
+    if (run === undefined) {
+      return this.logBuffer.queryLogs(record.managedProcess.id, logQuery);
+    }
+
+    // Narrow the query to the log segment of the run
+    const { target, next } = this.resolveRun(record.managedProcess, run);
+    return this.logBuffer.queryLogs(record.managedProcess.id, {
+      ...logQuery,
+      afterCursor: Math.max(logQuery.afterCursor ?? 0, target.logCursor),
+      beforeCursor: next
+        ? Math.min(logQuery.beforeCursor ?? Infinity, next.logCursor + 1)
+        : logQuery.beforeCursor,
+    });
+  }
+
+  /**
+   * Summarize the errors and warnings in the logs of a process
+   * Stack traces are grouped into single events and repeated messages are counted once
+   * @param processId Process ID or name
+   * @param query Run and time window to summarize (all buffered logs if omitted)
+   * @returns Error summary (undefined if process not found)
+   */
+  async getProcessErrors(processId: string, query: ProcessErrorQuery = {}): Promise<ErrorSummary | undefined> {
+    const { limit, ...logQuery } = query;
+    const logs = await this.getProcessLogs(processId, { ...logQuery, group: true });
+    return logs && this.errorSummarizer.summarize(logs.logs, limit);
+  }
+
+  /**
+   * Wait until a line matching a pattern is logged
+   * Buffered lines after the cursor are checked first, so output logged before the call is not missed
+   * @param processId Process ID or name
+   * @param options Pattern and waiting conditions
+   * @returns Whether the pattern matched, the process exited, or the wait timed out
+   */
+  async waitForLog(processId: string, options: WaitForLogOptions): Promise<WaitForLogResult> {
+    const record = this.findRecord(processId);
+    if (!record) {
+      throw new ProcessError(
+        ErrorType.PROCESS_NOT_FOUND,
+        `Process not found: ${processId}`,
+      );
+    }
+
+    const { id } = record.managedProcess;
+    const pattern = this.compileWaitPattern(options.pattern, options.ignoreCase === true);
+    const afterCursor = options.afterCursor ?? record.managedProcess.runs.at(-1)?.logCursor ?? 0;
+    const contextLines = options.context ?? DEFAULT_WAIT_CONTEXT_LINES;
+    const startedAt = Date.now();
+
+    const matches = (entry: LogEntry) => entry.type !== 'stdin'
+      && (options.stream === undefined || options.stream === 'both' || entry.type === options.stream)
+      && pattern.test(entry.line);
+
+    return await new Promise<WaitForLogResult>((resolve) => {
+      const cleanups: Array<() => void> = [];
+      let settled = false;
+
+      const finish = (state: WaitForLogResult['state'], match?: LogEntry) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        for (const cleanup of cleanups) {
+          cleanup();
+        }
+
+        const current = this.processes.get(id)?.managedProcess;
+        resolve({
+          state,
+          elapsedMs: Date.now() - startedAt,
+          match,
+          context: match && contextLines > 0
+            ? this.logBuffer.queryLogs(id, { beforeCursor: match.seq, lines: contextLines, stream: 'both' }).logs
+            : [],
+          nextCursor: match ? match.seq : this.logBuffer.getCursor(id),
+          exitCode: state === 'exited' ? current?.exitCode : undefined,
+        });
+      };
+
+      const timeout = setTimeout(() => {
+        finish('timed_out');
+      }, options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS);
+      cleanups.push(() => {
+        clearTimeout(timeout);
+      });
+
+      cleanups.push(this.logBuffer.subscribe(id, (entry) => {
+        if (matches(entry)) {
+          finish('matched', entry);
+        }
+      }));
+      cleanups.push(this.watchExit(id, () => {
+        finish('exited');
+      }));
+
+      // Lines may have been logged before subscribing
+      const buffered = this.logBuffer.queryLogs(id, { afterCursor }).logs.find(matches);
+      if (buffered) {
+        finish('matched', buffered);
+      }
+      else if (!isActiveStatus(this.processes.get(id)?.managedProcess.status ?? 'stopped')) {
+        finish('exited');
+      }
+    });
+  }
+
+  /**
+   * Wait until any or all of the given processes have exited
+   * A timeout is reported as an incomplete result, not as an error
+   * @param processIds Process IDs or names
+   * @param options Waiting conditions
+   * @returns Final state of each process
+   */
+  async waitForProcesses(processIds: string[], options: WaitOptions = {}): Promise<WaitResult> {
+    if (processIds.length === 0) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        'At least one process ID is required',
+      );
+    }
+
+    const ids = [...new Set(processIds.map((processId) => {
+      const record = this.findRecord(processId);
+      if (!record) {
+        throw new ProcessError(
+          ErrorType.PROCESS_NOT_FOUND,
+          `Process not found: ${processId}`,
+        );
+      }
+      return record.managedProcess.id;
+    }))];
+
+    const startedAt = Date.now();
+    const hasExited = (id: string) => !isActiveStatus(this.processes.get(id)?.managedProcess.status ?? 'stopped');
+    const isDone = () => (options.mode === 'any' ? ids.some(hasExited) : ids.every(hasExited));
+
+    const completed = isDone() || await new Promise<boolean>((resolve) => {
+      const cleanups: Array<() => void> = [];
+      const finish = (result: boolean) => {
+        for (const cleanup of cleanups.splice(0)) {
+          cleanup();
+        }
+        resolve(result);
+      };
+
+      const timeout = setTimeout(() => {
+        finish(false);
+      }, options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS);
+      cleanups.push(() => {
+        clearTimeout(timeout);
+      });
+
+      for (const id of ids) {
+        cleanups.push(this.watchExit(id, () => {
+          if (isDone()) {
+            finish(true);
+          }
+        }));
+      }
+    });
+
+    return {
+      completed,
+      elapsedMs: Date.now() - startedAt,
+      processes: ids.flatMap((id) => {
+        const managedProcess = this.processes.get(id)?.managedProcess;
+        return managedProcess ? [this.describeWaitStatus(managedProcess, options.tailLines ?? DEFAULT_WAIT_TAIL_LINES)] : [];
+      }),
+    };
+  }
+
+  /**
+   * Run a one-shot command and wait for it to finish
+   * When the timeout elapses, the process is stopped, or kept running as a regular background
+   * process if `backgroundOnTimeout` is set
+   * @param config Command and timeout
+   * @returns Final state, duration and output of the run
+   */
+  async runProcess(config: RunProcessConfig): Promise<RunProcessResult> {
+    const { timeoutMs, backgroundOnTimeout = false, maxOutputChars = DEFAULT_RUN_OUTPUT_CHARS, ...startConfig } = config;
+
+    // The log buffer only keeps the latest lines, so the output is captured as it arrives
+    const processId = this.generateProcessId();
+    const stdout = new OutputCapture(maxOutputChars);
+    const stderr = new OutputCapture(maxOutputChars);
+    const unsubscribe = this.logBuffer.subscribe(processId, (entry) => {
+      if (entry.type === 'stdout') {
+        stdout.add(entry.line);
+      }
+      else if (entry.type === 'stderr') {
+        stderr.add(entry.line);
+      }
+    });
+
+    try {
+      const started = await this.launchProcess(startConfig, processId);
+      const { completed } = await this.waitForProcesses([started.id], { timeoutMs, tailLines: 0 });
+
+      let state: RunProcessResult['state'] = 'exited';
+      if (!completed && backgroundOnTimeout) {
+        state = 'backgrounded';
+      }
+      else if (!completed) {
+        state = 'timed_out';
+        await this.stopProcess(started.id);
+      }
+
+      const managedProcess = this.processes.get(started.id)?.managedProcess ?? started;
+      return {
+        process: managedProcess,
+        state,
+        durationMs: (managedProcess.endTime ?? new Date()).getTime() - managedProcess.startTime.getTime(),
+        stdout: stdout.result(),
+        stderr: stderr.result(),
+      };
+    }
+    finally {
+      unsubscribe();
+    }
+  }
+
+  /**
+   * @param managedProcess Managed process
+   * @param tailLines Number of latest log lines to include
+   * @returns Wait status of the process
+   */
+  private describeWaitStatus(managedProcess: ManagedProcess, tailLines: number): ProcessWaitStatus {
+    const { id, startTime, endTime } = managedProcess;
     return {
-      logs: logData.logs,
-      lastUpdated: logData.lastUpdated,
+      process: managedProcess,
+      exited: !isActiveStatus(managedProcess.status),
+      durationMs: (endTime ?? new Date()).getTime() - startTime.getTime(),
+      logTail: tailLines > 0
+        ? this.logBuffer.queryLogs(id, {
+          afterCursor: managedProcess.runs.at(-1)?.logCursor ?? 0,
+          lines: tailLines,
+          stream: 'both',
+        }).logs
+        : [],
     };
   }
 
+  /**
+   * @param pattern Regular expression
+   * @param ignoreCase Whether to match case-insensitively
+   * @returns Compiled pattern
+   */
+  private compileWaitPattern(pattern: string, ignoreCase: boolean): RegExp {
+    try {
+      return new RegExp(pattern, ignoreCase ? 'i' : '');
+    }
+    catch (error) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Resolve a run reference
+   * @param managedProcess Managed process
+   * @param run Run number, or 0 for the current run and negative values for earlier runs
+   * @returns The run and the run following it
+   */
+  private resolveRun(managedProcess: ManagedProcess, run: number): { target: ProcessRun; next?: ProcessRun } {
+    const { runs } = managedProcess;
+    const currentRun = runs.at(-1)?.run ?? 0;
+    const runNumber = run <= 0 ? currentRun + run : run;
+    const index = runs.findIndex(r => r.run === runNumber);
+    const target = runs[index];
+
+    if (!target) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Run not found: ${run} (available runs: ${runs[0]?.run ?? 0}-${currentRun})`,
+        managedProcess.id,
+      );
+    }
+
+    return { target, next: runs[index + 1] };
+  }
+
   /**
    * Generate process ID
    * @returns Unique process ID
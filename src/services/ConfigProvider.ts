@@ -1,19 +1,84 @@
+import { access, readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, extname, join, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ErrorType, ProcessError } from '@/models/errors.js';
+import { type ProcessDefinition } from '@/models/ProcessDefinition.js';
+import { loadProcfile, ProcessDefinitionSchema, toProcessDefinitions } from '@/services/ProcessDefinitions.js';
+
 export const ConfigProviderTag = Symbol.for('ConfigProvider');
 
 export interface ConfigProvider {
   getMaxLogLinesPerProcesses: () => number;
+  getMaxLogBytesPerProcess: () => number;
+  getMaxTotalLogBytes: () => number;
+  getMaxLogLineLength: () => number;
   getMaxConcurrentProcesses: () => number;
   getProcessTerminationTimeoutMs: () => number;
+  getLogDirectory: () => string | undefined;
+  getLogFileMaxBytes: () => number;
+  getLogFileMaxFiles: () => number;
+  getLogDirectoryMaxBytes: () => number;
+  getAnsiMode: () => AnsiMode;
+  getPartialLineFlushMs: () => number;
+  getMultilinePatterns: () => string[];
+  getLogLevel: () => LoggingLevel;
+  getProcessDefinitions: () => ProcessDefinition[];
+  getProcessDefinitionErrors: () => string[];
   isLoggingEnabled: () => boolean;
 }
 
+/**
+ * How ANSI escape sequences in process output are handled
+ * `strip` removes them and collapses carriage-return redraws, keeping the original text for `raw` reads
+ */
+export type AnsiMode = 'strip' | 'keep';
+
+/** Levels of the server's own log messages, most severe first */
+export const LOGGING_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+
+export type LoggingLevel = typeof LOGGING_LEVELS[number];
+
 export type Config = {
   maxLogLinesPerProcesses: number;
+  /** Memory budget for the log lines of each process in bytes */
+  maxLogBytesPerProcess?: number;
+  /** Memory budget for the log lines of all processes in bytes */
+  maxTotalLogBytes?: number;
+  /** Maximum length of a stored log line in characters; longer lines are truncated */
+  maxLogLineLength?: number;
   maxConcurrentProcesses: number;
   processTerminationTimeoutMs: number;
+  /** Directory to persist process logs to (disabled if omitted) */
+  logDirectory?: string;
+  logFileMaxBytes?: number;
+  logFileMaxFiles?: number;
+  /** Size of all log files in the log directory at which the oldest files are deleted */
+  logDirectoryMaxBytes?: number;
+  /** ANSI escape sequence handling (default: strip) */
+  ansiMode?: AnsiMode;
+  /** Time a partial output line without a newline waits for more data before it is logged */
+  partialLineFlushMs?: number;
+  /** Additional regular expressions for lines that continue the previous log event */
+  multilinePatterns?: string[];
+  /** Least severe level of server log messages that are output (default: debug) */
+  logLevel?: LoggingLevel;
+  /** Named processes declared in the Procfile and configuration file */
+  processDefinitions?: ProcessDefinition[];
+  /** Problems with Procfile entries that were skipped */
+  processDefinitionErrors?: string[];
   loggingEnabled?: boolean;
 };
 
+const DEFAULT_MAX_LOG_BYTES_PER_PROCESS = 1024 * 1024;
+const DEFAULT_MAX_TOTAL_LOG_BYTES = 32 * 1024 * 1024;
+const DEFAULT_MAX_LOG_LINE_LENGTH = 16 * 1024;
+const DEFAULT_LOG_FILE_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_LOG_FILE_MAX_FILES = 5;
+const DEFAULT_LOG_DIRECTORY_MAX_BYTES = 256 * 1024 * 1024;
+const DEFAULT_PARTIAL_LINE_FLUSH_MS = 500;
+
 export class ConfigProviderImpl implements ConfigProvider {
   constructor(private readonly config: Config) {}
 
@@ -21,6 +86,18 @@ export class ConfigProviderImpl implements ConfigProvider {
     return this.config.maxLogLinesPerProcesses;
   }
 
+  getMaxLogBytesPerProcess(): number {
+    return this.config.maxLogBytesPerProcess ?? DEFAULT_MAX_LOG_BYTES_PER_PROCESS;
+  }
+
+  getMaxTotalLogBytes(): number {
+    return this.config.maxTotalLogBytes ?? DEFAULT_MAX_TOTAL_LOG_BYTES;
+  }
+
+  getMaxLogLineLength(): number {
+    return this.config.maxLogLineLength ?? DEFAULT_MAX_LOG_LINE_LENGTH;
+  }
+
   getMaxConcurrentProcesses(): number {
     return this.config.maxConcurrentProcesses;
   }
@@ -29,6 +106,46 @@ export class ConfigProviderImpl implements ConfigProvider {
     return this.config.processTerminationTimeoutMs;
   }
 
+  getLogDirectory(): string | undefined {
+    return this.config.logDirectory;
+  }
+
+  getLogFileMaxBytes(): number {
+    return this.config.logFileMaxBytes ?? DEFAULT_LOG_FILE_MAX_BYTES;
+  }
+
+  getLogFileMaxFiles(): number {
+    return this.config.logFileMaxFiles ?? DEFAULT_LOG_FILE_MAX_FILES;
+  }
+
+  getLogDirectoryMaxBytes(): number {
+    return this.config.logDirectoryMaxBytes ?? DEFAULT_LOG_DIRECTORY_MAX_BYTES;
+  }
+
+  getAnsiMode(): AnsiMode {
+    return this.config.ansiMode ?? 'strip';
+  }
+
+  getPartialLineFlushMs(): number {
+    return this.config.partialLineFlushMs ?? DEFAULT_PARTIAL_LINE_FLUSH_MS;
+  }
+
+  getMultilinePatterns(): string[] {
+    return this.config.multilinePatterns ?? [];
+  }
+
+  getLogLevel(): LoggingLevel {
+    return this.config.logLevel ?? 'debug';
+  }
+
+  getProcessDefinitions(): ProcessDefinition[] {
+    return this.config.processDefinitions ?? [];
+  }
+
+  getProcessDefinitionErrors(): string[] {
+    return this.config.processDefinitionErrors ?? [];
+  }
+
   isLoggingEnabled(): boolean {
     // Default to true if not specified, but disable in test environment
     if (this.config.loggingEnabled !== undefined) {
@@ -38,10 +155,253 @@ export class ConfigProviderImpl implements ConfigProvider {
   }
 }
 
-export async function loadConfig(): Promise<ConfigProvider> {
+/** Configuration file names looked up in the project directory, in order of preference */
+const PROJECT_CONFIG_FILE_NAMES = ['.manage-bg.json', '.manage-bg.yaml', '.manage-bg.yml'];
+/** Configuration file names looked up in the user configuration directory */
+const USER_CONFIG_FILE_NAMES = ['config.json', 'config.yaml', 'config.yml'];
+
+const DEFAULT_CONFIG: Config = {
+  maxConcurrentProcesses: 20,
+  maxLogLinesPerProcesses: 200,
+  processTerminationTimeoutMs: 5000,
+};
+
+const ConfigFileSchema = z.object({
+  maxLogLinesPerProcesses: z.number().int().positive(),
+  maxLogBytesPerProcess: z.number().int().positive(),
+  maxTotalLogBytes: z.number().int().positive(),
+  maxLogLineLength: z.number().int().positive(),
+  maxConcurrentProcesses: z.number().int().positive(),
+  processTerminationTimeoutMs: z.number().int().min(0),
+  logDirectory: z.string().min(1),
+  logFileMaxBytes: z.number().int().positive(),
+  logFileMaxFiles: z.number().int().positive(),
+  logDirectoryMaxBytes: z.number().int().positive(),
+  ansiMode: z.enum(['strip', 'keep']),
+  partialLineFlushMs: z.number().int().min(0),
+  multilinePatterns: z.array(z.string().refine(isValidRegExp, 'Invalid regular expression')),
+  logLevel: z.enum(LOGGING_LEVELS),
+  processes: z.record(ProcessDefinitionSchema),
+  loggingEnabled: z.boolean(),
+}).partial().strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/**
+ * Configuration value that can be set with a command line flag and an environment variable
+ */
+export type ConfigOption = {
+  key: Exclude<keyof ConfigFile, 'processes' | 'loggingEnabled'>;
+  /** Command line flag without the leading dashes */
+  flag: string;
+  /** Environment variable */
+  env: string;
+  /** Value conversion: a number, text, or a list given by repeating the flag or by newline-separated lines */
+  type: 'number' | 'string' | 'list';
+  description: string;
+};
+
+export const CONFIG_OPTIONS: ConfigOption[] = [
+  { key: 'maxConcurrentProcesses', flag: 'max-processes', env: 'MANAGE_BG_MAX_PROCESSES', type: 'number', description: 'Maximum number of running processes' },
+  { key: 'maxLogLinesPerProcesses', flag: 'max-log-lines', env: 'MANAGE_BG_MAX_LOG_LINES', type: 'number', description: 'Log lines kept in memory per process' },
+  { key: 'maxLogBytesPerProcess', flag: 'max-log-bytes', env: 'MANAGE_BG_MAX_LOG_BYTES', type: 'number', description: 'Log memory per process in bytes' },
+  { key: 'maxTotalLogBytes', flag: 'max-total-log-bytes', env: 'MANAGE_BG_MAX_TOTAL_LOG_BYTES', type: 'number', description: 'Log memory across all processes in bytes' },
+  { key: 'maxLogLineLength', flag: 'max-line-length', env: 'MANAGE_BG_MAX_LINE_LENGTH', type: 'number', description: 'Characters kept of a log line' },
+  { key: 'processTerminationTimeoutMs', flag: 'termination-timeout', env: 'MANAGE_BG_TERMINATION_TIMEOUT', type: 'number', description: 'Grace period before stop escalates to SIGKILL, in milliseconds' },
+  { key: 'logDirectory', flag: 'log-dir', env: 'MANAGE_BG_LOG_DIR', type: 'string', description: 'Directory to persist process logs to' },
+  { key: 'logFileMaxBytes', flag: 'log-file-max-bytes', env: 'MANAGE_BG_LOG_FILE_MAX_BYTES', type: 'number', description: 'Size at which persisted log files are rotated' },
+  { key: 'logFileMaxFiles', flag: 'log-file-max-files', env: 'MANAGE_BG_LOG_FILE_MAX_FILES', type: 'number', description: 'Rotated log files kept per process' },
+  { key: 'logDirectoryMaxBytes', flag: 'log-dir-max-bytes', env: 'MANAGE_BG_LOG_DIR_MAX_BYTES', type: 'number', description: 'Size of the log directory at which the oldest log files are deleted' },
+  { key: 'ansiMode', flag: 'ansi-mode', env: 'MANAGE_BG_ANSI_MODE', type: 'string', description: 'strip or keep escape sequences in output' },
+  { key: 'partialLineFlushMs', flag: 'partial-line-flush', env: 'MANAGE_BG_PARTIAL_LINE_FLUSH_MS', type: 'number', description: 'Time a line without a newline waits for more output, in milliseconds' },
+  { key: 'multilinePatterns', flag: 'multiline-pattern', env: 'MANAGE_BG_MULTILINE_PATTERNS', type: 'list', description: 'Regular expression for lines continuing a log event (repeatable)' },
+  { key: 'logLevel', flag: 'log-level', env: 'MANAGE_BG_LOG_LEVEL', type: 'string', description: 'Server log level: error, warn, info or debug' },
+];
+
+/** Text values of configuration options by configuration key, as given on the command line */
+export type ConfigOverrides = Partial<Record<ConfigOption['key'], string | string[]>>;
+
+export type LoadConfigOptions = {
+  /** Configuration file to use instead of looking one up (`--config`) */
+  configPath?: string;
+  /** Values given with command line flags */
+  overrides?: ConfigOverrides;
+  /** Project directory to look up `.manage-bg.json` in (default: current directory) */
+  cwd?: string;
+  /** Environment variables (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+};
+
+/**
+ * Load the configuration
+ * Command line flags take precedence over `MANAGE_BG_*` environment variables, which take precedence
+ * over the configuration file; unset values fall back to the built-in defaults.
+ * Without an explicit path, `.manage-bg.{json,yaml,yml}` in the project directory is used,
+ * then `config.{json,yaml,yml}` in `$XDG_CONFIG_HOME/manage-bg` (default: `~/.config/manage-bg`).
+ * Process definitions come from the `Procfile` of the project directory and the `processes` section
+ * @param options Configuration file, command line values and lookup environment
+ * @returns Configuration provider
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<ConfigProvider> {
+  const cwd = options.cwd ?? process.cwd();
+  const env = options.env ?? process.env;
+
+  const configPath = options.configPath !== undefined
+    ? resolve(cwd, options.configPath)
+    : await findConfigFile(cwd, env);
+  const fileConfig = configPath !== undefined ? await readConfigFile(configPath) : {};
+
+  // Definitions of the configuration file replace Procfile entries of the same name
+  const procfile = await loadProcfile(cwd);
+  const definitions = new Map<string, ProcessDefinition>();
+  for (const definition of [...procfile.definitions, ...fileConfig.processDefinitions ?? []]) {
+    definitions.set(definition.name, definition);
+  }
+
+  const envValues: ConfigOverrides = {};
+  for (const option of CONFIG_OPTIONS) {
+    // An empty variable counts as unset
+    const value = env[option.env];
+    if (value !== undefined && value !== '') {
+      envValues[option.key] = value;
+    }
+  }
+  const envConfig = parseOverrides(envValues, cwd, option => option.env);
+  const flagConfig = parseOverrides(options.overrides ?? {}, cwd, option => `--${option.flag}`);
+
   return new ConfigProviderImpl({
-    maxConcurrentProcesses: 20,
-    maxLogLinesPerProcesses: 200,
-    processTerminationTimeoutMs: 5000,
+    ...DEFAULT_CONFIG,
+    ...fileConfig,
+    ...envConfig,
+    ...flagConfig,
+    processDefinitions: [...definitions.values()],
+    processDefinitionErrors: procfile.errors,
   });
 }
+
+/**
+ * Convert and validate text values of configuration options
+ * @param values Text values by configuration key
+ * @param cwd Directory relative paths are resolved against
+ * @param describe Name of the option in error messages
+ * @returns Configuration values
+ */
+function parseOverrides(values: ConfigOverrides, cwd: string, describe: (option: ConfigOption) => string): Partial<Config> {
+  const data: Record<string, unknown> = {};
+  for (const option of CONFIG_OPTIONS) {
+    const value = values[option.key];
+    if (value !== undefined) {
+      data[option.key] = convertOptionValue(option, value);
+    }
+  }
+
+  const result = ConfigFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => {
+      const option = CONFIG_OPTIONS.find(candidate => candidate.key === issue.path[0]);
+      return `${option ? describe(option) : issue.path.join('.')}: ${issue.message}`;
+    });
+    throw new ProcessError(
+      ErrorType.VALIDATION_ERROR,
+      `Invalid configuration value: ${issues.join('; ')}`,
+    );
+  }
+
+  const config = result.data;
+  return config.logDirectory !== undefined
+    ? { ...config, logDirectory: resolve(cwd, config.logDirectory) }
+    : config;
+}
+
+/**
+ * @param option Configuration option
+ * @param value Text value, or values of a repeated flag
+ * @returns Value to validate against the configuration schema
+ */
+function convertOptionValue(option: ConfigOption, value: string | string[]): unknown {
+  const values = Array.isArray(value) ? value : [value];
+  switch (option.type) {
+    case 'list':
+      return values.flatMap(item => item.split('\n')).filter(item => item !== '');
+    case 'number': {
+      const text = values.at(-1)?.trim() ?? '';
+      // Keep unparsable text so that the error names the value received
+      return text !== '' && !Number.isNaN(Number(text)) ? Number(text) : text;
+    }
+    case 'string':
+      return values.at(-1);
+  }
+}
+
+/**
+ * @param cwd Project directory
+ * @param env Environment variables
+ * @returns Path of the first existing configuration file (undefined if there is none)
+ */
+async function findConfigFile(cwd: string, env: NodeJS.ProcessEnv): Promise<string | undefined> {
+  const userConfigDir = join(env.XDG_CONFIG_HOME ?? join(homedir(), '.config'), 'manage-bg');
+  const candidates = [
+    ...PROJECT_CONFIG_FILE_NAMES.map(name => join(cwd, name)),
+    ...USER_CONFIG_FILE_NAMES.map(name => join(userConfigDir, name)),
+  ];
+
+  for (const path of candidates) {
+    try {
+      await access(path);
+      return path;
+    }
+    catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read and validate a configuration file
+ * Files ending in `.json` are parsed as JSON, anything else as YAML
+ * @param path Configuration file path
+ * @returns Configuration values set in the file, with paths resolved against the file's directory
+ */
+async function readConfigFile(path: string): Promise<Partial<Config>> {
+  let data: unknown;
+  try {
+    const text = await readFile(path, 'utf-8');
+    data = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+  }
+  catch (error) {
+    throw new ProcessError(
+      ErrorType.VALIDATION_ERROR,
+      `Failed to read config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  // An empty YAML file sets nothing
+  const result = ConfigFileSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+    throw new ProcessError(
+      ErrorType.VALIDATION_ERROR,
+      `Invalid config file ${path}: ${issues.join('; ')}`,
+    );
+  }
+
+  const { processes, ...config } = result.data;
+  return {
+    ...config,
+    ...(config.logDirectory !== undefined ? { logDirectory: resolve(dirname(path), config.logDirectory) } : {}),
+    ...(processes !== undefined ? { processDefinitions: toProcessDefinitions(processes, dirname(path), path) } : {}),
+  };
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    // Compile for the syntax check only
+    void new RegExp(pattern);
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
@@ -0,0 +1,125 @@
+import { type ErrorGroup, type ErrorKind, type ErrorSummary, type LogEntry, type ProcessLogs } from '@/models/LogData.js';
+
+const ERROR_PATTERNS = [
+  // TypeScript
+  /\berror TS\d+:/,
+  // npm
+  /\bERR!/,
+  // Python
+  /^Traceback \(most recent call last\):/,
+  // Go
+  /^panic: /,
+  // JavaScript, Python and Java exceptions
+  /\b\w*(?:Error|Exception)(?::|$)/,
+  // Compilers (gcc, rustc)
+  /(?:^|:\s*)(?:error|fatal)(?:\[\w+\])?:/i,
+  // Log levels
+  /\b(?:ERROR|FATAL|CRITICAL)\b/,
+];
+
+const WARNING_PATTERNS = [
+  /\bWARN(?:ING)?\b/,
+  /(?:^|:\s*)warning(?:\[\w+\])?:/i,
+  /\b\w+Warning:/,
+];
+
+/** Variable parts of a message ignored when deduplicating (hex values, UUIDs, numbers) */
+const VARIABLE_PATTERN = /0x[0-9a-f]+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+/gi;
+
+const DEFAULT_GROUP_LIMIT = 20;
+const MAX_MESSAGE_LENGTH = 300;
+const MAX_STACK_LINES = 3;
+
+/**
+ * Condenses log events into a short list of distinct errors and warnings
+ */
+export class ErrorSummarizer {
+  /**
+   * Summarize errors and warnings
+   * @param events Log events in chronological order, with stack traces grouped
+   * @param limit Maximum number of groups to return, keeping the most recent
+   * @returns Error summary
+   */
+  summarize(events: ProcessLogs, limit = DEFAULT_GROUP_LIMIT): ErrorSummary {
+    const totals: Record<ErrorKind, number> = { error: 0, warning: 0, stderr: 0 };
+    const groups = new Map<string, ErrorGroup>();
+
+    for (const event of events) {
+      const kind = this.classify(event);
+      if (!kind) {
+        continue;
+      }
+      totals[kind]++;
+
+      const [headline, ...stack] = this.splitEvent(event);
+      const key = `${kind}:${event.type}:${headline.replace(VARIABLE_PATTERN, '#')}`;
+      const existing = groups.get(key);
+      const occurrence = {
+        message: headline.slice(0, MAX_MESSAGE_LENGTH),
+        ...(stack.length > 0 ? { stack: stack.slice(0, MAX_STACK_LINES).map(line => line.slice(0, MAX_MESSAGE_LENGTH)) } : {}),
+        lastSeen: event.timestamp,
+        lastSeq: event.seq,
+      };
+
+      // Re-insert so that the map stays ordered by latest occurrence
+      groups.delete(key);
+      groups.set(key, existing
+        ? { ...existing, ...occurrence, stack: occurrence.stack, count: existing.count + 1 }
+        : { kind, stream: event.type, ...occurrence, count: 1, firstSeen: event.timestamp, firstSeq: event.seq });
+    }
+
+    const ordered = [...groups.values()];
+    const kept = limit > 0 ? ordered.slice(-limit) : ordered;
+    return {
+      totals,
+      groups: kept,
+      omittedGroups: ordered.length - kept.length,
+    };
+  }
+
+  /**
+   * @param event Log event
+   * @returns Kind of problem (undefined if the event is regular output)
+   */
+  private classify(event: LogEntry): ErrorKind | undefined {
+    if (event.type === 'stdin') {
+      return undefined;
+    }
+
+    const { structured } = event;
+    if (structured?.level !== undefined) {
+      if (structured.level === 'error' || structured.level === 'fatal') {
+        return 'error';
+      }
+      return structured.level === 'warn' ? 'warning' : undefined;
+    }
+
+    const lines = event.line.split('\n');
+    if (ERROR_PATTERNS.some(pattern => lines.some(line => pattern.test(line)))) {
+      return 'error';
+    }
+    if (WARNING_PATTERNS.some(pattern => lines.some(line => pattern.test(line)))) {
+      return 'warning';
+    }
+    return event.type === 'stderr' ? 'stderr' : undefined;
+  }
+
+  /**
+   * Split an event into its headline and remaining lines
+   * @param event Log event
+   * @returns Headline followed by the remaining lines
+   */
+  private splitEvent(event: LogEntry): [string, ...string[]] {
+    if (event.structured?.msg !== undefined) {
+      return [event.structured.msg];
+    }
+
+    const [first = '', ...rest] = event.line.split('\n');
+    // A Python traceback names the exception on its last line
+    const last = rest.at(-1);
+    if (first.startsWith('Traceback ') && last !== undefined) {
+      return [last, ...rest.slice(0, -1)];
+    }
+    return [first, ...rest];
+  }
+}
@@ -0,0 +1,113 @@
+import { type LogLevel, type StructuredLog } from '@/models/LogData.js';
+
+const LEVEL_KEYS = ['level', 'lvl', 'severity'];
+const MESSAGE_KEYS = ['msg', 'message'];
+const TIME_KEYS = ['time', 'timestamp', 'ts'];
+
+const LEVEL_NAMES = new Map<string, LogLevel>([
+  ['trace', 'trace'],
+  ['debug', 'debug'],
+  ['info', 'info'],
+  ['warn', 'warn'],
+  ['warning', 'warn'],
+  ['error', 'error'],
+  ['err', 'error'],
+  ['fatal', 'fatal'],
+  ['critical', 'fatal'],
+  // zap
+  ['dpanic', 'error'],
+  ['panic', 'fatal'],
+]);
+
+/** Minimum numeric level of each level name (pino and bunyan) */
+const NUMERIC_LEVELS: Array<[number, LogLevel]> = [
+  [60, 'fatal'],
+  [50, 'error'],
+  [40, 'warn'],
+  [30, 'info'],
+  [20, 'debug'],
+];
+
+/** Epoch values below this are in seconds (zap) rather than milliseconds */
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+/**
+ * Parser for JSON log lines
+ * Recognizes the level, message and time fields of pino, bunyan, zap and similar loggers
+ */
+export class JsonLogParser {
+  /**
+   * Parse a log line
+   * @param line Log line
+   * @returns Parsed content (undefined if the line is not a JSON object)
+   */
+  parse(line: string): StructuredLog | undefined {
+    const text = line.trim();
+    if (!text.startsWith('{') || !text.endsWith('}')) {
+      return undefined;
+    }
+
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    }
+    catch {
+      return undefined;
+    }
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      return undefined;
+    }
+
+    const fields: Record<string, unknown> = { ...record };
+    const level = this.take(fields, LEVEL_KEYS, value => this.normalizeLevel(value));
+    const msg = this.take(fields, MESSAGE_KEYS, value => (typeof value === 'string' ? value : undefined));
+    const time = this.take(fields, TIME_KEYS, value => this.parseTime(value));
+
+    return {
+      ...(level !== undefined ? { level } : {}),
+      ...(msg !== undefined ? { msg } : {}),
+      ...(time !== undefined ? { time } : {}),
+      fields,
+    };
+  }
+
+  /**
+   * Remove the first of the given keys whose value can be converted
+   * @param fields Record fields
+   * @param keys Candidate keys in order of preference
+   * @param convert Conversion returning undefined for unusable values
+   * @returns Converted value (undefined if none of the keys is usable)
+   */
+  private take<T>(fields: Record<string, unknown>, keys: string[], convert: (value: unknown) => T | undefined): T | undefined {
+    for (const key of keys) {
+      const value = convert(fields[key]);
+      if (value !== undefined) {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete -- keys come from a fixed list
+        delete fields[key];
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private normalizeLevel(value: unknown): LogLevel | undefined {
+    if (typeof value === 'number') {
+      return NUMERIC_LEVELS.find(([minimum]) => value >= minimum)?.[1] ?? 'trace';
+    }
+    if (typeof value === 'string') {
+      return LEVEL_NAMES.get(value.toLowerCase());
+    }
+    return undefined;
+  }
+
+  private parseTime(value: unknown): Date | undefined {
+    let time: Date | undefined;
+    if (typeof value === 'number') {
+      time = new Date(value < EPOCH_SECONDS_LIMIT ? value * 1000 : value);
+    }
+    else if (typeof value === 'string') {
+      time = new Date(value);
+    }
+    return time && !Number.isNaN(time.getTime()) ? time : undefined;
+  }
+}
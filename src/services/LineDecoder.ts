@@ -0,0 +1,95 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Incremental decoder for a process output stream
+ * Passes on complete lines only, carrying a partial line and incomplete UTF-8 sequences
+ * over to the next chunk. A partial line is passed on when the stream stays idle
+ * (e.g. an interactive prompt) or when it is flushed explicitly. A partial line longer
+ * than the maximum line length is passed on cut off, and the rest of it is discarded.
+ * Carriage-return redraws before the latest one are dropped first, so that a long-running
+ * progress bar keeps its final state
+ */
+export class LineDecoder {
+  private readonly decoder = new StringDecoder('utf8');
+  private pending = '';
+  /** Whether the rest of a line that exceeded the maximum length is being discarded */
+  private discarding = false;
+  private idleTimer: NodeJS.Timeout | undefined;
+
+  /**
+   * @param onData Callback receiving decoded text (complete lines, or the trailing partial line on flush)
+   * @param idleFlushMs Time without new data after which a partial line is passed on
+   * @param maxLineLength Length beyond which a partial line is cut off
+   */
+  constructor(
+    private readonly onData: (data: string) => void,
+    private readonly idleFlushMs: number,
+    private readonly maxLineLength: number,
+  ) {}
+
+  /**
+   * Decode an output chunk
+   * @param chunk Raw output
+   */
+  write(chunk: Buffer): void {
+    let decoded = this.decoder.write(chunk);
+    if (this.discarding) {
+      const discardEnd = decoded.indexOf('\n') + 1;
+      if (discardEnd === 0) {
+        return;
+      }
+      this.discarding = false;
+      decoded = decoded.slice(discardEnd);
+    }
+
+    const text = this.pending + decoded;
+    const lineEnd = text.lastIndexOf('\n') + 1;
+    this.pending = text.slice(lineEnd);
+
+    if (lineEnd > 0) {
+      this.onData(text.slice(0, lineEnd));
+    }
+    if (this.pending.length > this.maxLineLength) {
+      // Only the latest redraw is visible; a trailing carriage return starts a redraw that has not been written yet
+      const redrawStart = this.pending.lastIndexOf('\r', this.pending.length - 2);
+      if (redrawStart > 0) {
+        this.pending = this.pending.slice(redrawStart);
+      }
+    }
+    if (this.pending.length > this.maxLineLength) {
+      // One character beyond the limit is kept so that the log buffer marks the line as truncated
+      this.onData(`${this.pending.slice(0, this.maxLineLength + 1)}\n`);
+      this.pending = '';
+      this.discarding = true;
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * Pass on the pending partial line, if any
+   */
+  flush(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+
+    const text = this.pending + this.decoder.end();
+    this.pending = '';
+    if (text.length > 0) {
+      this.onData(text);
+    }
+  }
+
+  private scheduleFlush(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    this.idleTimer = setTimeout(() => {
+      this.flush();
+    }, this.idleFlushMs);
+    // A pending line must not keep the server alive
+    this.idleTimer.unref();
+  }
+}
@@ -0,0 +1,109 @@
+import { ErrorType, ProcessError } from '@/models/errors.js';
+import { type LogEntry, type ProcessLogs } from '@/models/LogData.js';
+
+/**
+ * Rule for lines that continue the previous log event instead of starting a new one
+ */
+export type MultilinePattern = {
+  /** Line that continues the current event */
+  continuation: RegExp;
+  /** Only applies to events whose first line matches */
+  start?: RegExp;
+  /** The matching line completes the event */
+  ends?: boolean;
+};
+
+/**
+ * Built-in rules for stack traces of common runtimes
+ */
+export const DEFAULT_MULTILINE_PATTERNS: MultilinePattern[] = [
+  // Indented lines: Node.js and Java stack frames, Python source lines, wrapped messages
+  { continuation: /^[ \t]+\S/ },
+  // Java exception chains
+  { continuation: /^Caused by: / },
+  { continuation: /^Suppressed: / },
+  // Final "SomeError: message" line of a Python traceback
+  { continuation: /^[A-Za-z_][\w.]*(?::|$)/, start: /^Traceback \(most recent call last\):/, ends: true },
+];
+
+type OpenEvent = {
+  entry: LogEntry;
+  firstLine: string;
+  closed: boolean;
+};
+
+/**
+ * Groups continuation lines such as stack frames into single log events
+ * Events of different streams are grouped independently, so interleaved output of another
+ * stream does not split a stack trace
+ */
+export class LogEventGrouper {
+  private readonly patterns: MultilinePattern[];
+
+  /**
+   * @param customPatterns Additional regular expressions for continuation lines
+   */
+  constructor(customPatterns: string[] = []) {
+    this.patterns = [
+      ...DEFAULT_MULTILINE_PATTERNS,
+      ...customPatterns.map(pattern => ({ continuation: this.compilePattern(pattern) })),
+    ];
+  }
+
+  /**
+   * Group log entries into events
+   * An event keeps the sequence number and timestamp of its first line, its lines are joined
+   * with newlines, and `endSeq` is the sequence number of its last line
+   * @param entries Entries in chronological order
+   * @returns Events in chronological order of their first line
+   */
+  group(entries: ProcessLogs): ProcessLogs {
+    const events: LogEntry[] = [];
+    const openEvents = new Map<LogEntry['type'], OpenEvent>();
+
+    for (const entry of entries) {
+      const open = openEvents.get(entry.type);
+      const pattern = open && !open.closed ? this.findContinuation(open, entry.line) : undefined;
+
+      if (!open || !pattern) {
+        const event = { ...entry };
+        events.push(event);
+        openEvents.set(entry.type, { entry: event, firstLine: entry.line, closed: false });
+        continue;
+      }
+
+      open.entry.line += `\n${entry.line}`;
+      open.entry.endSeq = entry.seq;
+      if (entry.truncated === true) {
+        open.entry.truncated = true;
+      }
+      open.closed = pattern.ends === true;
+    }
+
+    return events;
+  }
+
+  /**
+   * @param event Open event of the stream
+   * @param line Next line of the stream
+   * @returns Pattern under which the line continues the event (undefined if it starts a new one)
+   */
+  private findContinuation(event: OpenEvent, line: string): MultilinePattern | undefined {
+    return this.patterns.find(pattern =>
+      pattern.continuation.test(line)
+      && (pattern.start === undefined || pattern.start.test(event.firstLine)),
+    );
+  }
+
+  private compilePattern(pattern: string): RegExp {
+    try {
+      return new RegExp(pattern);
+    }
+    catch (error) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Invalid multiline pattern: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { inject, injectable } from 'inversify';
-import { type ConfigProvider, ConfigProviderTag } from '@/services/ConfigProvider.js';
+import { type ConfigProvider, ConfigProviderTag, LOGGING_LEVELS, type LoggingLevel } from '@/services/ConfigProvider.js';
 
 export const LoggingTag = Symbol('Logging');
 
@@ -13,33 +13,35 @@ export interface Logging {
 @injectable()
 export class LoggingImpl implements Logging {
   private readonly enabled: boolean;
+  private readonly maxLevelIndex: number;
 
   constructor(
     @inject(ConfigProviderTag) configProvider: ConfigProvider,
   ) {
     this.enabled = configProvider.isLoggingEnabled();
+    this.maxLevelIndex = LOGGING_LEVELS.indexOf(configProvider.getLogLevel());
   }
 
   debug(message: string, ...args: unknown[]): void {
-    if (this.enabled) {
+    if (this.isEnabled('debug')) {
       console.log(`[DEBUG] ${message}`, ...args);
     }
   }
 
   info(message: string): void {
-    if (this.enabled) {
+    if (this.isEnabled('info')) {
       console.log(`[INFO] ${message}`);
     }
   }
 
   warn(message: string): void {
-    if (this.enabled) {
+    if (this.isEnabled('warn')) {
       console.warn(`[WARN] ${message}`);
     }
   }
 
   error(message: string, error?: unknown): void {
-    if (this.enabled) {
+    if (this.isEnabled('error')) {
       if (error !== undefined) {
         console.error(`[ERROR] ${message}`, error);
       }
@@ -48,6 +50,10 @@ export class LoggingImpl implements Logging {
       }
     }
   }
+
+  private isEnabled(level: LoggingLevel): boolean {
+    return this.enabled && LOGGING_LEVELS.indexOf(level) <= this.maxLevelIndex;
+  }
 }
 
 @injectable()
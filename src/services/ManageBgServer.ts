@@ -2,45 +2,141 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { inject, injectable } from 'inversify';
 import { z } from 'zod';
+import { LOG_LEVELS } from '@/models/LogData.js';
 import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
 import { type Logging, LoggingTag } from '@/services/Logging.js';
 import { type PackageInfoProvider, PackageInfoProviderTag } from '@/services/PackageInfoProvider.js';
+import { type ProcessLogStore, ProcessLogStoreTag } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckSchema, RestartPolicySchema } from '@/services/ProcessSchemas.js';
+import { GetErrorsHandler } from '@/services/tools/GetErrorsHandler.js';
 import { GetInfoHandler } from '@/services/tools/GetInfoHandler.js';
 import { GetLogsHandler } from '@/services/tools/GetLogsHandler.js';
+import { ListDefinitionsHandler } from '@/services/tools/ListDefinitionsHandler.js';
 import { ListHandler } from '@/services/tools/ListHandler.js';
+import { ListScriptsHandler } from '@/services/tools/ListScriptsHandler.js';
+import { ResizeHandler } from '@/services/tools/ResizeHandler.js';
 import { RestartHandler } from '@/services/tools/RestartHandler.js';
+import { RunHandler } from '@/services/tools/RunHandler.js';
+import { SendInputHandler } from '@/services/tools/SendInputHandler.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { StopAllHandler } from '@/services/tools/StopAllHandler.js';
 import { StopHandler } from '@/services/tools/StopHandler.js';
+import { WaitForLogHandler } from '@/services/tools/WaitForLogHandler.js';
+import { WaitHandler } from '@/services/tools/WaitHandler.js';
 
 // Tool input schemas
 const StartToolSchema = z.object({
-  command: z.string().describe('Command to run'),
+  command: z.string().optional().describe('Command to run (required unless definition or script is given)'),
+  definition: z.string().optional().describe('Name of a process definition from the Procfile or configuration file to start instead of a command; other parameters override the definition'),
+  script: z.string().optional().describe('Name of a package.json script to start with the package manager of the project in cwd; args are passed on to the script'),
+  package: z.string().optional().describe('Workspace package whose script is started (default: the root package)'),
   args: z.array(z.string()).optional().describe('Command arguments'),
-  name: z.string().optional().describe('Optional name for the process'),
+  name: z.string().optional().describe('Optional unique name for the process, usable instead of the process ID'),
   cwd: z.string().optional().describe('Working directory'),
   env: z.record(z.string()).optional().describe('Environment variables'),
+  readiness: ReadinessCheckSchema.optional().describe('Wait until the process is ready before returning'),
+  restartPolicy: RestartPolicySchema.optional().describe('Automatic restart policy'),
+  stdin: z.enum(['ignore', 'pipe']).optional().describe('Set to pipe to send input with send_input (default: ignore)'),
+  tty: z.boolean().optional().describe('Run the command under a pseudo-terminal for tools that behave differently without a TTY'),
+  columns: z.number().int().positive().max(1000).optional().describe('Terminal columns when tty is set (default: 80)'),
+  rows: z.number().int().positive().max(1000).optional().describe('Terminal rows when tty is set (default: 24)'),
+  queue: z.boolean().optional().describe('Wait for a free slot instead of failing when the concurrent process limit is reached'),
+  queueTimeoutMs: z.number().int().positive().optional().describe('Maximum time to wait for a free slot in milliseconds (default: 30000)'),
+  jsonLogs: z.boolean().optional().describe('Parse JSON log lines (pino, bunyan, zap) so that get_logs can filter them by level and fields (default: true)'),
 });
 
 const StopToolSchema = z.object({
-  processId: z.string().describe('Process ID to stop'),
+  processId: z.string().describe('Process ID or name to stop'),
+  signal: z.enum(['SIGTERM', 'SIGINT', 'SIGHUP', 'SIGQUIT', 'SIGKILL']).optional().describe('Signal sent first (default: SIGTERM)'),
+  timeoutMs: z.number().int().min(0).optional().describe('Grace period in milliseconds before escalating to SIGKILL (default: configured termination timeout)'),
+  force: z.boolean().optional().describe('Send SIGKILL immediately'),
 });
 
 const RestartToolSchema = z.object({
-  processId: z.string().describe('Process ID to restart'),
+  processId: z.string().describe('Process ID or name to restart'),
 });
 
 const StopAllToolSchema = z.object({});
 
 const ListToolSchema = z.object({});
 
+const ListDefinitionsToolSchema = z.object({});
+
+const ListScriptsToolSchema = z.object({
+  cwd: z.string().optional().describe('Project directory containing package.json (default: server working directory)'),
+});
+
 const GetInfoToolSchema = z.object({
-  processId: z.string().describe('Process ID to get info for'),
+  processId: z.string().describe('Process ID or name to get info for'),
 });
 
 const GetLogsToolSchema = z.object({
-  processId: z.string().describe('Process ID to get logs for'),
+  processId: z.string().describe('Process ID or name to get logs for'),
+  run: z.number().int().optional().describe('Run to get logs of: a run number, 0 for the current run, -1 for the previous run, and so on (all runs if omitted)'),
   lines: z.number().optional().describe('Number of lines to retrieve (optional)'),
+  afterCursor: z.number().int().min(0).optional().describe('Only return lines after this cursor (the nextCursor of a previous call)'),
+  beforeCursor: z.number().int().min(0).optional().describe('Only return lines before this cursor, to page back through on-disk history'),
+  grep: z.string().optional().describe('Regular expression that lines must match'),
+  invert: z.boolean().optional().describe('Return lines that do not match grep instead'),
+  ignoreCase: z.boolean().optional().describe('Match grep case-insensitively'),
+  stream: z.enum(['stdout', 'stderr', 'pty', 'stdin', 'both']).optional().describe('Stream to include: stdout, stderr, pty (terminal output), stdin (sent input) or both for all output (default: all)'),
+  since: z.string().optional().describe('Only include lines logged at or after this ISO 8601 timestamp'),
+  until: z.string().optional().describe('Only include lines logged at or before this ISO 8601 timestamp'),
+  before: z.number().int().min(0).optional().describe('Number of context lines to include before each grep match'),
+  after: z.number().int().min(0).optional().describe('Number of context lines to include after each grep match'),
+  raw: z.boolean().optional().describe('Return lines as captured, including ANSI escape sequences and carriage-return redraws'),
+  level: z.enum(LOG_LEVELS).optional().describe('Only return JSON log records at or above this level (trace, debug, info, warn, error, fatal)'),
+  fields: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Only return JSON log records whose fields equal these values, e.g. { "req.method": "POST" }'),
+  group: z.boolean().optional().describe('Group multi-line events such as stack traces into single entries; lines then counts events and grep matches whole events'),
+});
+
+const GetErrorsToolSchema = z.object({
+  processId: z.string().describe('Process ID or name to summarize errors of'),
+  run: z.number().int().optional().describe('Run to summarize: a run number, 0 for the current run, -1 for the previous run, and so on (all runs if omitted)'),
+  since: z.string().optional().describe('Only include errors logged at or after this ISO 8601 timestamp'),
+  until: z.string().optional().describe('Only include errors logged at or before this ISO 8601 timestamp'),
+  limit: z.number().int().positive().optional().describe('Maximum number of distinct messages to return, keeping the most recent (default: 20)'),
+});
+
+const WaitForLogToolSchema = z.object({
+  processId: z.string().describe('Process ID or name to watch'),
+  pattern: z.string().describe('Regular expression to wait for, e.g. "Compiled successfully" or "Listening on \\d+"'),
+  ignoreCase: z.boolean().optional().describe('Match the pattern case-insensitively'),
+  stream: z.enum(['stdout', 'stderr', 'pty', 'both']).optional().describe('Stream to watch (default: all output)'),
+  afterCursor: z.number().int().min(0).optional().describe('Also check lines logged after this cursor (default: start of the current run)'),
+  timeoutMs: z.number().int().positive().max(600000).optional().describe('Maximum time to wait in milliseconds (default: 30000)'),
+  context: z.number().int().min(0).max(50).optional().describe('Number of lines before the match to return (default: 5)'),
+});
+
+const RunToolSchema = z.object({
+  command: z.string().describe('Command to execute'),
+  args: z.array(z.string()).optional().describe('Command arguments'),
+  name: z.string().optional().describe('Human-friendly name for the process, usable in place of the process ID'),
+  cwd: z.string().optional().describe('Working directory'),
+  env: z.record(z.string()).optional().describe('Environment variables'),
+  timeoutMs: z.number().int().positive().max(600000).optional().describe('Maximum run time in milliseconds (default: 30000)'),
+  backgroundOnTimeout: z.boolean().optional().describe('Keep the process running in the background when the timeout elapses instead of stopping it'),
+  maxOutputChars: z.number().int().min(0).optional().describe('Maximum characters of stdout and stderr each to return, keeping the end of the output (default: 20000)'),
+});
+
+const WaitToolSchema = z.object({
+  processIds: z.array(z.string()).min(1).describe('Process IDs or names to wait for'),
+  mode: z.enum(['any', 'all']).optional().describe('Return when any or all of the processes have exited (default: all)'),
+  timeoutMs: z.number().int().positive().max(600000).optional().describe('Maximum time to wait in milliseconds (default: 30000)'),
+  tailLines: z.number().int().min(0).max(100).optional().describe('Number of latest log lines of each process to return (default: 10)'),
+});
+
+const SendInputToolSchema = z.object({
+  processId: z.string().describe('Process ID or name to send input to'),
+  text: z.string().optional().describe('Text to write to stdin'),
+  newline: z.boolean().optional().describe('Append a newline to the text (default: true)'),
+  close: z.boolean().optional().describe('Close stdin after writing'),
+});
+
+const ResizeToolSchema = z.object({
+  processId: z.string().describe('Process ID or name of a process started with tty'),
+  columns: z.number().int().positive().max(1000).describe('Terminal columns'),
+  rows: z.number().int().positive().max(1000).describe('Terminal rows'),
 });
 
 @injectable()
@@ -54,6 +150,7 @@ export class BgManageServer {
     @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
     @inject(PackageInfoProviderTag) private readonly packageInfoProvider: PackageInfoProvider,
     @inject(LoggingTag) private readonly logging: Logging,
+    @inject(ProcessLogStoreTag) private readonly logStore: ProcessLogStore,
     @inject(StartHandler) private readonly startHandler: StartHandler,
     @inject(StopHandler) private readonly stopHandler: StopHandler,
     @inject(RestartHandler) private readonly restartHandler: RestartHandler,
@@ -61,6 +158,14 @@ export class BgManageServer {
     @inject(ListHandler) private readonly listHandler: ListHandler,
     @inject(GetInfoHandler) private readonly getInfoHandler: GetInfoHandler,
     @inject(GetLogsHandler) private readonly getLogsHandler: GetLogsHandler,
+    @inject(SendInputHandler) private readonly sendInputHandler: SendInputHandler,
+    @inject(ResizeHandler) private readonly resizeHandler: ResizeHandler,
+    @inject(GetErrorsHandler) private readonly getErrorsHandler: GetErrorsHandler,
+    @inject(WaitForLogHandler) private readonly waitForLogHandler: WaitForLogHandler,
+    @inject(WaitHandler) private readonly waitHandler: WaitHandler,
+    @inject(RunHandler) private readonly runHandler: RunHandler,
+    @inject(ListDefinitionsHandler) private readonly listDefinitionsHandler: ListDefinitionsHandler,
+    @inject(ListScriptsHandler) private readonly listScriptsHandler: ListScriptsHandler,
   ) {
     this.server = new McpServer({
       name: this.packageInfoProvider.getName(),
@@ -75,7 +180,7 @@ export class BgManageServer {
    */
   private setupHandlers(): void {
     this.server.registerTool('start', {
-      description: 'Start a background process',
+      description: 'Start a background process from a command or a process definition, optionally waiting until it is ready',
       inputSchema: StartToolSchema.shape,
     }, async (args) => {
       const result = await this.startHandler.handle(args);
@@ -91,7 +196,7 @@ export class BgManageServer {
     });
 
     this.server.registerTool('restart', {
-      description: 'Restart a background process',
+      description: 'Restart a background process, keeping its process ID and log history as a new run',
       inputSchema: RestartToolSchema.shape,
     }, async (args) => {
       const result = await this.restartHandler.handle(args);
@@ -113,6 +218,20 @@ export class BgManageServer {
       return await this.listHandler.handle();
     });
 
+    this.server.registerTool('list_definitions', {
+      description: 'List the process definitions of the project (Procfile and configuration file) that start can launch by name',
+      inputSchema: ListDefinitionsToolSchema.shape,
+    }, async () => {
+      return await this.listDefinitionsHandler.handle();
+    });
+
+    this.server.registerTool('list_scripts', {
+      description: 'List the package.json scripts of a Node project and its workspace packages, with the package manager detected from lockfiles',
+      inputSchema: ListScriptsToolSchema.shape,
+    }, async (args) => {
+      return await this.listScriptsHandler.handle(args);
+    });
+
     this.server.registerTool('get_info', {
       description: 'Get information about a specific process',
       inputSchema: GetInfoToolSchema.shape,
@@ -122,12 +241,54 @@ export class BgManageServer {
     });
 
     this.server.registerTool('get_logs', {
-      description: 'Get logs from a specific process',
+      description: 'Get logs from a specific process in chronological order, optionally filtered by regex, stream and time window',
       inputSchema: GetLogsToolSchema.shape,
     }, async (args) => {
       const result = await this.getLogsHandler.handle(args);
       return result || { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, error: 'No data returned' }) }] };
     });
+
+    this.server.registerTool('get_errors', {
+      description: 'Summarize errors and warnings of a process: stderr output and common error patterns, with stack traces grouped and repeated messages counted once',
+      inputSchema: GetErrorsToolSchema.shape,
+    }, async (args) => {
+      return await this.getErrorsHandler.handle(args);
+    });
+
+    this.server.registerTool('wait_for_log', {
+      description: 'Wait until a process logs a line matching a regex, exits, or the timeout elapses, instead of polling get_logs',
+      inputSchema: WaitForLogToolSchema.shape,
+    }, async (args) => {
+      return await this.waitForLogHandler.handle(args);
+    });
+
+    this.server.registerTool('run', {
+      description: 'Run a one-shot command such as a type check or git status and return its exit code, duration and output in one call',
+      inputSchema: RunToolSchema.shape,
+    }, async (args) => {
+      return await this.runHandler.handle(args);
+    });
+
+    this.server.registerTool('wait', {
+      description: 'Wait until one-shot processes such as builds or tests exit, returning their exit codes, durations and latest log lines',
+      inputSchema: WaitToolSchema.shape,
+    }, async (args) => {
+      return await this.waitHandler.handle(args);
+    });
+
+    this.server.registerTool('send_input', {
+      description: 'Send input to the stdin of a process started with stdin: pipe, or close its stdin',
+      inputSchema: SendInputToolSchema.shape,
+    }, async (args) => {
+      return await this.sendInputHandler.handle(args);
+    });
+
+    this.server.registerTool('resize', {
+      description: 'Resize the pseudo-terminal of a process started with tty: true',
+      inputSchema: ResizeToolSchema.shape,
+    }, async (args) => {
+      return await this.resizeHandler.handle(args);
+    });
   }
 
   /**
@@ -143,6 +304,9 @@ export class BgManageServer {
     this.isRunning = true;
 
     this.logging.info('Server running on stdio');
+    for (const error of this.processManager.listDefinitionErrors()) {
+      this.logging.warn(`Skipped process definition: ${error}`);
+    }
   }
 
   /**
@@ -160,6 +324,7 @@ export class BgManageServer {
     catch (error) {
       this.logging.error('Error stopping processes during server shutdown:', error);
     }
+    await this.logStore.close();
 
     await this.server.close();
     this.isRunning = false;
@@ -0,0 +1,52 @@
+export type CapturedOutput = {
+  text: string;
+  /** Number of lines the stream produced, including lines cut off by truncation */
+  lines: number;
+  /** Whether the beginning of the output was cut off */
+  truncated: boolean;
+};
+
+/**
+ * Output of one stream of a one-shot command, keeping the latest lines within a character limit
+ */
+export class OutputCapture {
+  private readonly kept: string[] = [];
+  private keptChars = 0;
+  private lineCount = 0;
+  private dropped = false;
+
+  /**
+   * @param maxChars Maximum number of characters to keep
+   */
+  constructor(private readonly maxChars: number) {}
+
+  /**
+   * @param line Output line
+   */
+  add(line: string): void {
+    this.kept.push(line);
+    this.keptChars += line.length + 1;
+    this.lineCount++;
+
+    // Keep the last line even if it is longer than the limit; it is cut in `result`
+    while (this.keptChars > this.maxChars + 1 && this.kept.length > 1) {
+      this.keptChars -= (this.kept.shift()?.length ?? 0) + 1;
+      this.dropped = true;
+    }
+  }
+
+  /**
+   * @returns Output text, keeping its end when truncated
+   */
+  result(): CapturedOutput {
+    let text = this.kept.join('\n');
+    const cut = text.length > this.maxChars;
+    if (cut) {
+      // Summaries and the final errors are usually at the end of the output; cut at a line start if possible
+      const start = text.length - this.maxChars;
+      const lineStart = text.indexOf('\n', start - 1) + 1;
+      text = text.slice(lineStart > 0 && lineStart < text.length ? lineStart : start);
+    }
+    return { text, lines: this.lineCount, truncated: this.dropped || cut };
+  }
+}
@@ -0,0 +1,227 @@
+import { type Dirent } from 'node:fs';
+import { access, readdir, readFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { ErrorType, ProcessError } from '@/models/errors.js';
+import { type PackageManager, type ProjectScripts, type ScriptPackage } from '@/models/PackageScript.js';
+
+/** Lockfiles in order of precedence when a directory has several */
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+const PackageJsonSchema = z.object({
+  name: z.string().optional(),
+  scripts: z.record(z.unknown()).optional(),
+  workspaces: z.union([
+    z.array(z.string()),
+    z.object({ packages: z.array(z.string()).optional() }),
+  ]).optional(),
+  packageManager: z.string().optional(),
+});
+
+type PackageJson = z.infer<typeof PackageJsonSchema>;
+
+const PnpmWorkspaceSchema = z.object({
+  packages: z.array(z.string()).optional(),
+});
+
+/**
+ * Load the scripts of a Node project and its workspace packages
+ * @param projectDir Project directory containing package.json
+ * @returns Project scripts
+ */
+export async function loadProjectScripts(projectDir: string): Promise<ProjectScripts> {
+  const dir = resolve(projectDir);
+  const manifest = await readPackageJson(dir);
+  if (!manifest) {
+    throw new ProcessError(
+      ErrorType.VALIDATION_ERROR,
+      `No package.json found in ${dir}`,
+    );
+  }
+
+  const packages = [toScriptPackage(dir, manifest)];
+  for (const packageDir of await findWorkspaceDirs(dir, manifest)) {
+    const workspaceManifest = await readPackageJson(packageDir);
+    if (workspaceManifest) {
+      packages.push(toScriptPackage(packageDir, workspaceManifest));
+    }
+  }
+
+  return {
+    ...await detectPackageManager(dir, manifest),
+    packages,
+  };
+}
+
+/**
+ * Detect the package manager of a project
+ * Looks for a lockfile in the directory and its parents, so that workspace packages use the manager of their root,
+ * then falls back to the `packageManager` field and finally to npm
+ * @param dir Project directory
+ * @param manifest package.json of the project
+ * @returns Package manager and the lockfile it was detected from
+ */
+export async function detectPackageManager(dir: string, manifest: { packageManager?: string }): Promise<Pick<ProjectScripts, 'packageManager' | 'lockfile'>> {
+  for (let current = dir; ; current = dirname(current)) {
+    for (const [fileName, packageManager] of LOCKFILES) {
+      const lockfile = join(current, fileName);
+      if (await exists(lockfile)) {
+        return { packageManager, lockfile };
+      }
+    }
+    if (dirname(current) === current) {
+      break;
+    }
+  }
+
+  // Corepack field such as "pnpm@9.1.0"
+  const declared = manifest.packageManager?.split('@')[0];
+  const packageManager = PACKAGE_MANAGERS.find(candidate => candidate === declared);
+  return { packageManager: packageManager ?? 'npm' };
+}
+
+/**
+ * Build the command line running a script
+ * @param packageManager Package manager
+ * @param script Script name
+ * @param args Arguments passed on to the script
+ * @returns Command and arguments
+ */
+export function scriptCommand(packageManager: PackageManager, script: string, args: string[] = []): { command: string; args: string[] } {
+  // npm only passes arguments after `--` on to the script
+  const scriptArgs = packageManager === 'npm' && args.length > 0 ? ['--', ...args] : args;
+  return { command: packageManager, args: ['run', script, ...scriptArgs] };
+}
+
+/**
+ * @param dir Package directory
+ * @returns Parsed package.json (undefined if the directory has none)
+ */
+async function readPackageJson(dir: string): Promise<PackageJson | undefined> {
+  const path = join(dir, 'package.json');
+  let content: unknown;
+  try {
+    content = JSON.parse(await readFile(path, 'utf-8'));
+  }
+  catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw new ProcessError(
+      ErrorType.VALIDATION_ERROR,
+      `Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const result = PackageJsonSchema.safeParse(content);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new ProcessError(
+      ErrorType.VALIDATION_ERROR,
+      `Invalid ${path}: ${issues}`,
+    );
+  }
+  return result.data;
+}
+
+function toScriptPackage(dir: string, manifest: PackageJson): ScriptPackage {
+  const scripts = Object.fromEntries(
+    Object.entries(manifest.scripts ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+  );
+  return {
+    ...(manifest.name !== undefined ? { name: manifest.name } : {}),
+    dir,
+    scripts,
+  };
+}
+
+/**
+ * Find the workspace package directories of a project
+ * Reads the `workspaces` field (npm, yarn, bun) and pnpm-workspace.yaml
+ * @param dir Project directory
+ * @param manifest package.json of the project
+ * @returns Workspace package directories in pattern order
+ */
+async function findWorkspaceDirs(dir: string, manifest: PackageJson): Promise<string[]> {
+  const patterns = Array.isArray(manifest.workspaces) ? [...manifest.workspaces] : [...manifest.workspaces?.packages ?? []];
+
+  const pnpmWorkspace = join(dir, 'pnpm-workspace.yaml');
+  if (await exists(pnpmWorkspace)) {
+    const result = PnpmWorkspaceSchema.safeParse(parseYaml(await readFile(pnpmWorkspace, 'utf-8')));
+    patterns.push(...result.data?.packages ?? []);
+  }
+
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    const segments = (negated ? pattern.slice(1) : pattern).split('/').filter(segment => segment !== '' && segment !== '.');
+    for (const match of await expandPattern(dir, segments)) {
+      (negated ? excluded : included).add(match);
+    }
+  }
+  included.delete(dir);
+  return [...included].filter(match => !excluded.has(match));
+}
+
+/**
+ * Expand a workspace pattern supporting `*` within a path segment and `**` for any depth
+ * @param baseDir Directory the segments are relative to
+ * @param segments Remaining path segments
+ * @returns Matching directories
+ */
+async function expandPattern(baseDir: string, segments: string[]): Promise<string[]> {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return [baseDir];
+  }
+  if (segment === '**') {
+    const nested = await Promise.all((await listSubdirectories(baseDir)).map(async subdir => await expandPattern(subdir, segments)));
+    return [...await expandPattern(baseDir, rest), ...nested.flat()];
+  }
+  if (!segment.includes('*')) {
+    return await expandPattern(join(baseDir, segment), rest);
+  }
+
+  const pattern = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+  const matches = (await listSubdirectories(baseDir)).filter(subdir => pattern.test(subdir.slice(baseDir.length + 1)));
+  return (await Promise.all(matches.map(async match => await expandPattern(match, rest)))).flat();
+}
+
+/**
+ * @param dir Directory
+ * @returns Subdirectories in name order, excluding node_modules and hidden directories
+ */
+async function listSubdirectories(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  }
+  catch {
+    return [];
+  }
+  return entries
+    .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+    .map(entry => join(dir, entry.name))
+    .sort();
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
@@ -1,14 +1,24 @@
-import { spawn, type ChildProcess } from 'child_process';
+import { execFile, spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import { type Readable } from 'stream';
+import { promisify } from 'util';
 import { injectable } from 'inversify';
+import { type TerminalSize } from '@/models/ManagedProcess.js';
+
+const execFileAsync = promisify(execFile);
 
 export type ProcessStatus = 'running' | 'stopped' | 'error';
 
 export type ProcessSpawnResult = {
   pid: number;
-  onExit: (callback: (code: number | null) => void) => void;
+  onExit: (callback: (code: number | null, signal: NodeJS.Signals | null) => void) => void;
   onError: (callback: (error: Error) => void) => void;
   onStdout: (callback: (data: Buffer) => void) => void;
   onStderr: (callback: (data: Buffer) => void) => void;
+  /** Write to stdin (only when spawned with `stdin: 'pipe'`) */
+  writeStdin: (data: string) => Promise<void>;
+  /** Close stdin (only when spawned with `stdin: 'pipe'`) */
+  closeStdin: () => void;
 };
 
 export type ProcessSpawnConfig = {
@@ -16,6 +26,10 @@ export type ProcessSpawnConfig = {
   args?: string[];
   cwd?: string;
   env?: Record<string, string>;
+  /** Whether stdin is connected to a pipe (default: ignore) */
+  stdin?: 'ignore' | 'pipe';
+  /** Run the command under a pseudo-terminal of this size; stdin is always piped */
+  tty?: TerminalSize;
 };
 
 export const ProcessControllerTag = Symbol.for('ProcessController');
@@ -26,17 +40,27 @@ export const ProcessControllerTag = Symbol.for('ProcessController');
  */
 export interface ProcessController {
   spawn: (config: ProcessSpawnConfig) => Promise<ProcessSpawnResult>;
-  kill: (pid: number, force?: boolean) => boolean;
-  waitForExit: (pid: number, timeoutMs?: number) => Promise<void>;
+  kill: (pid: number, signal?: NodeJS.Signals) => boolean;
+  waitForExit: (pid: number, timeoutMs?: number) => Promise<boolean>;
+  isAlive: (pid: number) => boolean;
+  resize: (pid: number, size: TerminalSize) => Promise<void>;
 }
 
+const GROUP_POLL_INTERVAL_MS = 50;
+/** Maximum time to wait for buffered output after exit; descendants may keep the pipes open */
+const OUTPUT_DRAIN_TIMEOUT_MS = 200;
+
 /**
  * Process control service
  * Functions as a wrapper for child_process
+ * On POSIX systems each process is spawned into its own process group,
+ * so that signals reach the whole process tree (e.g. the server started by `npm run dev`)
  */
 @injectable()
 export class ProcessControllerImpl implements ProcessController {
   private readonly processes = new Map<number, ChildProcess>();
+  private readonly processGroups = new Set<number>();
+  private readonly useProcessGroups = process.platform !== 'win32';
 
   /**
    * Start a process
@@ -44,11 +68,18 @@ export class ProcessControllerImpl implements ProcessController {
    * @returns Process spawn result
    */
   async spawn(config: ProcessSpawnConfig): Promise<ProcessSpawnResult> {
-    const childProcess = spawn(config.command, config.args ?? [], {
+    const { command, args } = config.tty
+      ? this.wrapInTerminal(config.command, config.args ?? [], config.tty)
+      : { command: config.command, args: config.args ?? [] };
+    const env = config.tty
+      ? { TERM: 'xterm-256color', ...process.env, ...config.env }
+      : config.env ? { ...process.env, ...config.env } : undefined;
+
+    const childProcess = spawn(command, args, {
       cwd: config.cwd,
-      detached: false,
-      stdio: ['ignore', 'pipe', 'pipe'],
-      env: config.env ? { ...process.env, ...config.env } : undefined,
+      detached: this.useProcessGroups,
+      stdio: [config.tty ? 'pipe' : config.stdin ?? 'ignore', 'pipe', 'pipe'],
+      env,
     });
 
     await new Promise((resolve, reject) => {
@@ -73,7 +104,17 @@ export class ProcessControllerImpl implements ProcessController {
       throw new Error('Failed to get process PID');
     }
 
+    // Writes after the process exited fail with EPIPE; report them through the write callback only
+    childProcess.stdin?.on('error', () => undefined);
+
+    // Node.js discards the unread output of an exited process; keep it until a listener subscribes
+    const subscribeStdout = this.bufferOutput(childProcess.stdout);
+    const subscribeStderr = this.bufferOutput(childProcess.stderr);
+
     this.processes.set(pid, childProcess);
+    if (this.useProcessGroups) {
+      this.processGroups.add(pid);
+    }
 
     return await new Promise((resolve, reject) => {
       const errorHandler = (error: Error) => {
@@ -88,27 +129,180 @@ export class ProcessControllerImpl implements ProcessController {
 
         childProcess.once('exit', () => {
           this.processes.delete(pid);
+          // Forget the group unless descendants are still alive
+          this.isGroupAlive(pid);
         });
 
         resolve({
           pid,
           onExit: (callback) => {
-            childProcess.on('exit', callback);
+            const notify = () => {
+              void this.waitForOutputEnd(childProcess).then(() => {
+                callback(childProcess.exitCode, childProcess.signalCode);
+              });
+            };
+            // Short-lived commands may already have exited during the startup delay
+            if (childProcess.exitCode !== null || childProcess.signalCode !== null) {
+              notify();
+            }
+            else {
+              childProcess.once('exit', notify);
+            }
           },
           onError: (callback) => {
             childProcess.on('error', callback);
           },
-          onStdout: (callback) => {
-            childProcess.stdout?.on('data', callback);
+          onStdout: subscribeStdout,
+          onStderr: subscribeStderr,
+          writeStdin: async (data) => {
+            await this.writeStdin(childProcess, data);
           },
-          onStderr: (callback) => {
-            childProcess.stderr?.on('data', callback);
+          closeStdin: () => {
+            childProcess.stdin?.end();
           },
         });
       }, 10);
     });
   }
 
+  /**
+   * Build a command line that runs the command under a pseudo-terminal using script(1)
+   * @param command Command to run
+   * @param args Command arguments
+   * @param size Initial terminal size
+   * @returns Command and arguments to spawn
+   */
+  private wrapInTerminal(command: string, args: string[], size: TerminalSize): { command: string; args: string[] } {
+    if (process.platform === 'win32') {
+      throw new Error('Pseudo-terminal mode is not supported on Windows');
+    }
+
+    const shellCommand = `stty cols ${size.columns} rows ${size.rows} 2>/dev/null; exec ${[command, ...args].map(quoteShellArg).join(' ')}`;
+
+    return process.platform === 'darwin'
+      ? { command: 'script', args: ['-q', '/dev/null', 'sh', '-c', shellCommand] }
+      : { command: 'script', args: ['-qfec', shellCommand, '/dev/null'] };
+  }
+
+  /**
+   * Resize the pseudo-terminal of a process started in terminal mode
+   * @param pid Process ID
+   * @param size New terminal size
+   */
+  async resize(pid: number, size: TerminalSize): Promise<void> {
+    if (process.platform !== 'linux') {
+      throw new Error('Resizing terminals is only supported on Linux');
+    }
+
+    const terminal = this.findTerminal(pid);
+    if (terminal === undefined) {
+      throw new Error(`Terminal of process ${pid} not found`);
+    }
+
+    // The kernel notifies the foreground process group with SIGWINCH
+    await execFileAsync('stty', ['-F', terminal, 'cols', String(size.columns), 'rows', String(size.rows)]);
+  }
+
+  /**
+   * Find the terminal device of the command started by script(1)
+   * @param pid Process ID of script(1)
+   * @returns Terminal device path (undefined if not found)
+   */
+  private findTerminal(pid: number): string | undefined {
+    for (const entry of fs.readdirSync('/proc')) {
+      if (!/^\d+$/.test(entry)) {
+        continue;
+      }
+      try {
+        const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf-8');
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        if (Number(fields[1]) !== pid) {
+          continue;
+        }
+        const terminal = fs.readlinkSync(`/proc/${entry}/fd/0`);
+        if (terminal.startsWith('/dev/pts/')) {
+          return terminal;
+        }
+      }
+      catch {
+        // The process exited while scanning
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read an output stream right away, buffering chunks until the first listener subscribes
+   * @param stream Output stream of the child process
+   * @returns Function subscribing a listener, which first receives the buffered chunks
+   */
+  private bufferOutput(stream: Readable | null): (callback: (data: Buffer) => void) => void {
+    const listeners: Array<(data: Buffer) => void> = [];
+    const buffered: Buffer[] = [];
+
+    stream?.on('data', (data: Buffer) => {
+      if (listeners.length === 0) {
+        buffered.push(data);
+      }
+      for (const listener of listeners) {
+        listener(data);
+      }
+    });
+
+    return (callback) => {
+      for (const data of buffered.splice(0)) {
+        callback(data);
+      }
+      listeners.push(callback);
+    };
+  }
+
+  /**
+   * Wait until the output pipes are drained, so that exit is reported after the last output
+   * @param childProcess Exited child process
+   */
+  private async waitForOutputEnd(childProcess: ChildProcess): Promise<void> {
+    const streams = [childProcess.stdout, childProcess.stderr]
+      .filter(stream => stream !== null && !stream.destroyed);
+    if (streams.length === 0) {
+      return;
+    }
+
+    let timeout: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(streams.map(async (stream) => {
+        await new Promise((resolve) => {
+          stream?.once('close', resolve);
+        });
+      })),
+      new Promise((resolve) => {
+        timeout = setTimeout(resolve, OUTPUT_DRAIN_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timeout);
+  }
+
+  private async writeStdin(childProcess: ChildProcess, data: string): Promise<void> {
+    const stdin = childProcess.stdin;
+    if (!stdin) {
+      throw new Error('stdin is not piped');
+    }
+    if (stdin.writableEnded || stdin.destroyed) {
+      throw new Error('stdin is closed');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(data, (error) => {
+        if (error) {
+          reject(error);
+        }
+        else {
+          resolve();
+        }
+      });
+    });
+  }
+
   private getStartError(originalError: Error): Error {
     if (originalError.message.includes('ENOENT')) {
       return new Error('Command not found');
@@ -117,48 +311,153 @@ export class ProcessControllerImpl implements ProcessController {
   }
 
   /**
-   * Terminate a process
+   * Send a signal to a process together with its process group
    * @param pid Process ID
-   * @param force Force termination flag
-   * @returns Whether the termination signal was successfully sent
+   * @param signal Signal to send
+   * @returns Whether the signal was successfully sent
    */
-  kill(pid: number, force = false): boolean {
+  kill(pid: number, signal: NodeJS.Signals = 'SIGTERM'): boolean {
+    if (this.processGroups.has(pid)) {
+      try {
+        process.kill(-pid, signal);
+        return true;
+      }
+      catch {
+        // The group no longer exists
+        this.processGroups.delete(pid);
+      }
+    }
+
     const childProcess = this.processes.get(pid);
     if (!childProcess) {
       return false;
     }
 
-    const signal = force ? 'SIGKILL' : 'SIGTERM';
     return childProcess.kill(signal);
   }
 
   /**
-   * Wait for process to exit
+   * Wait for process and the rest of its process group to exit
    * @param pid Process ID
    * @param timeoutMs Timeout in milliseconds
+   * @returns Whether the process group exited (false if the timeout elapsed first)
    */
-  async waitForExit(pid: number, timeoutMs = 5000): Promise<void> {
+  async waitForExit(pid: number, timeoutMs = 5000): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+
     const childProcess = this.processes.get(pid);
-    if (!childProcess) {
-      await Promise.resolve();
-      return; // Already exited
-    }
+    if (childProcess) {
+      await new Promise((resolve) => {
+        const timeout = setTimeout(() => {
+          resolve(undefined);
+        }, timeoutMs);
 
-    await new Promise((resolve) => {
-      const timeout = setTimeout(() => {
-        resolve(undefined);
-      }, timeoutMs);
+        childProcess.once('exit', () => {
+          clearTimeout(timeout);
+          resolve(undefined);
+        });
 
-      childProcess.once('exit', () => {
-        clearTimeout(timeout);
-        resolve(undefined);
+        // If the process has already exited
+        if (childProcess.exitCode !== null || childProcess.signalCode !== null) {
+          clearTimeout(timeout);
+          resolve(undefined);
+        }
+      });
+      // Exit is reported to onExit callbacks once the output is drained
+      if (childProcess.exitCode !== null || childProcess.signalCode !== null) {
+        await this.waitForOutputEnd(childProcess);
+      }
+    }
+
+    while (this.isGroupAlive(pid) && Date.now() < deadline) {
+      await new Promise((resolve) => {
+        setTimeout(resolve, GROUP_POLL_INTERVAL_MS);
       });
+    }
 
-      // If the process has already exited
-      if (childProcess.exitCode !== null || childProcess.killed) {
-        clearTimeout(timeout);
-        resolve(undefined);
+    const childExited = !childProcess || childProcess.exitCode !== null || childProcess.signalCode !== null;
+    return childExited && !this.isGroupAlive(pid);
+  }
+
+  /**
+   * Check whether the process or any member of its process group is still alive
+   * @param pid Process ID
+   * @returns Whether any process of the tree is alive
+   */
+  isAlive(pid: number): boolean {
+    return this.processes.has(pid) || this.isGroupAlive(pid);
+  }
+
+  /**
+   * Check whether the process group still has members, forgetting it once empty
+   * @param pgid Process group ID
+   * @returns Whether the group has live members
+   */
+  private isGroupAlive(pgid: number): boolean {
+    if (!this.processGroups.has(pgid)) {
+      return false;
+    }
+
+    let exists: boolean;
+    try {
+      process.kill(-pgid, 0);
+      exists = true;
+    }
+    catch (error) {
+      exists = error instanceof Error && 'code' in error && error.code === 'EPERM';
+    }
+
+    if (!exists || !this.hasRunningGroupMembers(pgid)) {
+      this.processGroups.delete(pgid);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check for group members that are not zombies
+   * Orphaned descendants may remain as zombies when no init process reaps them (e.g. in containers)
+   * @param pgid Process group ID
+   * @returns Whether a running member exists (true when it cannot be determined)
+   */
+  private hasRunningGroupMembers(pgid: number): boolean {
+    if (process.platform !== 'linux') {
+      return true;
+    }
+
+    let entries: string[];
+    try {
+      entries = fs.readdirSync('/proc');
+    }
+    catch {
+      return true;
+    }
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) {
+        continue;
       }
-    });
+      try {
+        const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf-8');
+        // Fields after the command name: state ppid pgrp ...
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        if (Number(fields[2]) === pgid && fields[0] !== 'Z') {
+          return true;
+        }
+      }
+      catch {
+        // The process exited while scanning
+      }
+    }
+    return false;
   }
 }
+
+/**
+ * Quote an argument for POSIX shells
+ * @param arg Argument
+ * @returns Quoted argument
+ */
+function quoteShellArg(arg: string): string {
+  return `'${arg.replaceAll('\'', '\'\\\'\'')}'`;
+}
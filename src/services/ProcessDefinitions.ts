@@ -0,0 +1,102 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import { type ProcessDefinition } from '@/models/ProcessDefinition.js';
+import { ReadinessCheckSchema, RestartPolicySchema } from '@/services/ProcessSchemas.js';
+
+/**
+ * Process definition in the `processes` section of a configuration file
+ */
+export const ProcessDefinitionSchema = z.object({
+  command: z.string().min(1),
+  args: z.array(z.string()).optional(),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  readiness: ReadinessCheckSchema.optional(),
+  restartPolicy: RestartPolicySchema.optional(),
+  description: z.string().optional(),
+}).strict();
+
+export type ProcessDefinitionEntry = z.infer<typeof ProcessDefinitionSchema>;
+
+/** Procfile entry: a process type name, a colon and a command line */
+const PROCFILE_ENTRY_PATTERN = /^([A-Za-z0-9_-]+):\s*(.*\S)\s*$/;
+
+/**
+ * Convert the `processes` section of a configuration file into definitions
+ * @param entries Definitions by name
+ * @param baseDir Directory relative working directories are resolved against
+ * @param source Configuration file path
+ * @returns Process definitions
+ */
+export function toProcessDefinitions(entries: Record<string, ProcessDefinitionEntry>, baseDir: string, source: string): ProcessDefinition[] {
+  return Object.entries(entries).map(([name, entry]) => ({
+    ...entry,
+    name,
+    cwd: resolve(baseDir, entry.cwd ?? '.'),
+    source,
+  }));
+}
+
+/**
+ * Definitions of a Procfile and problems with entries that were skipped
+ */
+export type ProcfileContent = {
+  definitions: ProcessDefinition[];
+  errors: string[];
+};
+
+/**
+ * Parse a Procfile
+ * Commands run through `sh -c` in the Procfile's directory, as with foreman and Heroku.
+ * Invalid entries are skipped, since the Procfile belongs to the project rather than to this server
+ * @param text Procfile content
+ * @param path Procfile path
+ * @returns Process definitions in file order and errors of skipped entries
+ */
+export function parseProcfile(text: string, path: string): ProcfileContent {
+  const definitions: ProcessDefinition[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) {
+      return;
+    }
+
+    const match = PROCFILE_ENTRY_PATTERN.exec(line);
+    if (!match?.[1] || !match[2]) {
+      errors.push(`Invalid Procfile entry at ${path}:${index + 1}: ${line}`);
+      return;
+    }
+    definitions.push({
+      name: match[1],
+      command: 'sh',
+      args: ['-c', match[2]],
+      cwd: dirname(path),
+      source: path,
+    });
+  });
+  return { definitions, errors };
+}
+
+/**
+ * Load the Procfile of a project directory
+ * @param dir Project directory
+ * @returns Process definitions and errors (both empty if there is no Procfile)
+ */
+export async function loadProcfile(dir: string): Promise<ProcfileContent> {
+  const path = join(dir, 'Procfile');
+  let text: string;
+  try {
+    text = await readFile(path, 'utf-8');
+  }
+  catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return { definitions: [], errors: [] };
+    }
+    return {
+      definitions: [],
+      errors: [`Failed to read Procfile ${path}: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+  return parseProcfile(text, path);
+}
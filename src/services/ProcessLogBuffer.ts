@@ -1,19 +1,47 @@
 import { inject, injectable } from 'inversify';
-import { type LogData, type LogEntry, type ProcessLogs } from '@/models/LogData.js';
+import { ErrorType, ProcessError } from '@/models/errors.js';
+import { LOG_LEVELS, type LogData, type LogEntry, type LogQuery, type LogStream, type ProcessLogs, type StructuredLog } from '@/models/LogData.js';
 import { type ConfigProvider, ConfigProviderTag } from '@/services/ConfigProvider.js';
+import { JsonLogParser } from '@/services/JsonLogParser.js';
+import { LogEventGrouper } from '@/services/LogEventGrouper.js';
+import { type ProcessLogStore, ProcessLogStoreTag } from '@/services/ProcessLogStore.js';
 
 export const ProcessLogBufferTag = Symbol.for('ProcessLogBuffer');
 
 export interface ProcessLogBuffer {
   appendStdout: (processId: string, data: string) => void;
   appendStderr: (processId: string, data: string) => void;
-  getLatestLogs: (processId: string, lines?: number) => LogData;
-  clearLogs: (processId: string) => void;
+  appendPty: (processId: string, data: string) => void;
+  appendStdin: (processId: string, data: string) => void;
+  queryLogs: (processId: string, query: LogQuery) => LogData;
+  getCursor: (processId: string) => number;
+  subscribe: (processId: string, listener: LogListener) => () => void;
+  configureProcess: (processId: string, options: ProcessLogOptions) => void;
 }
 
+export type LogListener = (entry: LogEntry) => void;
+
+export type ProcessLogOptions = {
+  /** Parse output lines that are JSON objects into structured records */
+  parseJson: boolean;
+};
+
+type LogLine = Pick<LogEntry, 'line' | 'raw'>;
+
+// Erase in Line, which clears text left over from a previous redraw
+// eslint-disable-next-line no-control-regex -- matching control characters is the point
+const ERASE_LINE_PATTERN = /\u001b\[[02]?K/;
+// CSI, OSC and other escape sequences (https://en.wikipedia.org/wiki/ANSI_escape_code)
+// eslint-disable-next-line no-control-regex -- matching control characters is the point
+const ANSI_ESCAPE_PATTERN = /\u001b(?:\[[0-?]*[ -/]*[@-~]|\][^\u0007\u001b]*(?:\u0007|\u001b\\)|[()][0-9A-Za-z]|[@-Z\\-_])/g;
+
 type LogBufferElement = {
   logs: ProcessLogs;
   lastUpdated: Date;
+  /** Sequence number assigned to the next entry */
+  nextSeq: number;
+  /** Size of the buffered entries in bytes */
+  bytes: number;
 };
 
 /**
@@ -23,10 +51,28 @@ type LogBufferElement = {
 @injectable()
 export class ProcessLogBufferImpl implements ProcessLogBuffer {
   private readonly buffers = new Map<string, LogBufferElement>();
+  private readonly listeners = new Map<string, Set<LogListener>>();
+  private readonly processOptions = new Map<string, ProcessLogOptions>();
   private readonly maxLines: number;
+  private readonly maxBytes: number;
+  private readonly maxTotalBytes: number;
+  private readonly maxLineLength: number;
+  /** Size of the buffered entries of all processes in bytes */
+  private totalBytes = 0;
+  private readonly ansiMode: 'strip' | 'keep';
+  private readonly eventGrouper: LogEventGrouper;
+  private readonly jsonParser = new JsonLogParser();
 
-  constructor(@inject(ConfigProviderTag) private readonly configService: ConfigProvider) {
+  constructor(
+    @inject(ConfigProviderTag) private readonly configService: ConfigProvider,
+    @inject(ProcessLogStoreTag) private readonly logStore: ProcessLogStore,
+  ) {
     this.maxLines = configService.getMaxLogLinesPerProcesses();
+    this.maxBytes = configService.getMaxLogBytesPerProcess();
+    this.maxTotalBytes = configService.getMaxTotalLogBytes();
+    this.maxLineLength = configService.getMaxLogLineLength();
+    this.ansiMode = configService.getAnsiMode();
+    this.eventGrouper = new LogEventGrouper(configService.getMultilinePatterns());
   }
 
   /**
@@ -35,21 +81,7 @@ export class ProcessLogBufferImpl implements ProcessLogBuffer {
    * @param data Data to append (including newlines)
    */
   appendStdout(processId: string, data: string): void {
-    const buffer = this.getOrCreateBuffer(processId);
-    const lines = this.parseLines(data);
-
-    if (lines.length > 0) {
-      const timestamp = new Date();
-      const entries: LogEntry[] = lines.map(line => ({
-        type: 'stdout' as const,
-        line,
-        timestamp,
-      }));
-
-      buffer.logs.push(...entries);
-      this.enforceBufferLimits(buffer);
-      buffer.lastUpdated = timestamp;
-    }
+    this.append(processId, 'stdout', data);
   }
 
   /**
@@ -58,58 +90,184 @@ export class ProcessLogBufferImpl implements ProcessLogBuffer {
    * @param data Data to append (including newlines)
    */
   appendStderr(processId: string, data: string): void {
-    const buffer = this.getOrCreateBuffer(processId);
-    const lines = this.parseLines(data);
+    this.append(processId, 'stderr', data);
+  }
 
-    if (lines.length > 0) {
-      const timestamp = new Date();
-      const entries: LogEntry[] = lines.map(line => ({
-        type: 'stderr' as const,
-        line,
-        timestamp,
-      }));
+  /**
+   * Append pseudo-terminal output
+   * @param processId Process ID
+   * @param data Data to append (including newlines)
+   */
+  appendPty(processId: string, data: string): void {
+    this.append(processId, 'pty', data);
+  }
 
-      buffer.logs.push(...entries);
-      this.enforceBufferLimits(buffer);
-      buffer.lastUpdated = timestamp;
-    }
+  /**
+   * Record input sent to the process
+   * @param processId Process ID
+   * @param data Input data (including newlines)
+   */
+  appendStdin(processId: string, data: string): void {
+    this.appendLines(processId, 'stdin', this.parseLines(data).map(line => ({ line })));
   }
 
   /**
-   * Get latest log data
+   * Search log data
+   * Entries are filtered by cursor, stream and time window first, then by `grep`
+   * with context, and finally limited to the latest `lines` entries.
+   * Entries evicted from memory are read from disk when the requested range is older
+   * than the memory buffer. With `raw`, the original content is returned and searched.
+   * `level` and `fields` only match JSON log records.
+   * With `group`, entries are grouped into multi-line events before searching and limiting
    * @param processId Process ID
-   * @param lines Number of lines to retrieve (all if omitted)
-   * @returns Log data
+   * @param query Search conditions
+   * @returns Matching log data in chronological order
    */
-  getLatestLogs(processId: string, lines?: number): LogData {
+  queryLogs(processId: string, query: LogQuery): LogData {
+    const pattern = query.grep !== undefined
+      ? this.compilePattern(query.grep, query.ignoreCase === true)
+      : undefined;
     const buffer = this.buffers.get(processId);
 
     if (!buffer) {
       return {
         logs: [],
         lastUpdated: new Date(),
+        nextCursor: query.afterCursor ?? 0,
+        evictedLines: 0,
+        skippedLines: 0,
       };
     }
 
-    let logs = buffer.logs;
+    const afterCursor = query.afterCursor ?? 0;
+    const firstSeq = buffer.logs[0]?.seq ?? buffer.nextSeq;
+    let history: LogEntry[] = [];
+    let logs = this.selectLogs(buffer.logs, query, pattern);
+    // Reading the files is expensive, so disk history is only read when memory cannot answer the query
+    if (this.needsHistory(buffer, query, logs.length)) {
+      history = this.logStore.readHistory(processId, firstSeq).map(entry => this.withStructured(processId, entry));
+      logs = this.selectLogs([...history, ...buffer.logs], query, pattern);
+    }
 
-    if (lines !== undefined && lines > 0) {
-      // Get the latest 'lines' entries (preserving chronological order)
-      logs = buffer.logs.slice(-lines);
+    let skippedLines = 0;
+    if (query.lines !== undefined && query.lines > 0) {
+      skippedLines = Math.max(0, logs.length - query.lines);
+      logs = logs.slice(-query.lines);
     }
 
+    const earliestSeq = history[0]?.seq ?? firstSeq;
+
     return {
       logs,
       lastUpdated: buffer.lastUpdated,
+      nextCursor: buffer.nextSeq - 1,
+      evictedLines: query.afterCursor !== undefined ? Math.max(0, earliestSeq - afterCursor - 1) : 0,
+      skippedLines: query.afterCursor !== undefined ? skippedLines : 0,
+    };
+  }
+
+  /**
+   * Set how the output of a process is captured
+   * @param processId Process ID
+   * @param options Capture options
+   */
+  configureProcess(processId: string, options: ProcessLogOptions): void {
+    this.processOptions.set(processId, options);
+  }
+
+  /**
+   * Get the cursor of the latest entry
+   * @param processId Process ID
+   * @returns Cursor (0 if nothing has been logged)
+   */
+  getCursor(processId: string): number {
+    const buffer = this.buffers.get(processId);
+    return buffer ? buffer.nextSeq - 1 : 0;
+  }
+
+  /**
+   * Subscribe to new log entries of a process
+   * @param processId Process ID
+   * @param listener Listener called for each appended entry
+   * @returns Function to unsubscribe
+   */
+  subscribe(processId: string, listener: LogListener): () => void {
+    let listeners = this.listeners.get(processId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(processId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      const current = this.listeners.get(processId);
+      current?.delete(listener);
+      if (current?.size === 0) {
+        this.listeners.delete(processId);
+      }
     };
   }
 
   /**
-   * Clear process logs
+   * Append data to the process buffer and notify subscribers
    * @param processId Process ID
+   * @param type Log type
+   * @param data Data to append (including newlines)
    */
-  clearLogs(processId: string): void {
-    this.buffers.delete(processId);
+  private append(processId: string, type: LogEntry['type'], data: string): void {
+    const lines = this.parseLines(data);
+    if (this.ansiMode === 'keep') {
+      this.appendLines(processId, type, lines.map(line => ({ line })));
+      return;
+    }
+
+    this.appendLines(processId, type, lines.map((raw) => {
+      const line = this.cleanLine(raw);
+      return raw === line ? { line } : { line, raw };
+    }));
+  }
+
+  /**
+   * Append lines to the process buffer and notify subscribers
+   * @param processId Process ID
+   * @param type Log type
+   * @param lines Lines to append
+   */
+  private appendLines(processId: string, type: LogEntry['type'], lines: LogLine[]): void {
+    const buffer = this.getOrCreateBuffer(processId);
+
+    if (lines.length > 0) {
+      const timestamp = new Date();
+      const entries: LogEntry[] = lines.map(({ line, raw }) => {
+        const truncated = line.length > this.maxLineLength || (raw !== undefined && raw.length > this.maxLineLength);
+        return this.withStructured(processId, {
+          seq: buffer.nextSeq++,
+          type,
+          line: line.slice(0, this.maxLineLength),
+          ...(raw !== undefined ? { raw: raw.slice(0, this.maxLineLength) } : {}),
+          ...(truncated ? { truncated } : {}),
+          timestamp,
+        });
+      });
+
+      const bytes = entries.reduce((sum, entry) => sum + this.getEntrySize(entry), 0);
+      buffer.logs.push(...entries);
+      buffer.bytes += bytes;
+      this.totalBytes += bytes;
+      this.logStore.append(processId, entries);
+      this.enforceBufferLimits(buffer);
+      this.enforceTotalLimit();
+      buffer.lastUpdated = timestamp;
+
+      const listeners = this.listeners.get(processId);
+      if (listeners) {
+        for (const entry of entries) {
+          for (const listener of [...listeners]) {
+            listener(entry);
+          }
+        }
+      }
+    }
   }
 
   /**
@@ -122,6 +280,8 @@ export class ProcessLogBufferImpl implements ProcessLogBuffer {
       buffer = {
         logs: [],
         lastUpdated: new Date(),
+        nextSeq: 1,
+        bytes: 0,
       };
       this.buffers.set(processId, buffer);
     }
@@ -129,27 +289,274 @@ export class ProcessLogBufferImpl implements ProcessLogBuffer {
   }
 
   /**
-   * Enforce buffer limits
+   * Enforce the line and byte limits of a process buffer
+   * The latest entry is always kept
    * @param buffer Process log buffer
    */
   private enforceBufferLimits(buffer: LogBufferElement): void {
-    if (buffer.logs.length > this.maxLines) {
-      // Keep only the latest maxLines entries (preserving chronological order)
-      buffer.logs = buffer.logs.slice(-this.maxLines);
+    // Keep only the latest maxLines entries (preserving chronological order)
+    let count = Math.max(0, buffer.logs.length - this.maxLines);
+    let bytes = buffer.logs
+      .slice(0, count)
+      .reduce((sum, entry) => sum + this.getEntrySize(entry), 0);
+
+    for (const entry of buffer.logs.slice(count, -1)) {
+      if (buffer.bytes - bytes <= this.maxBytes) {
+        break;
+      }
+      bytes += this.getEntrySize(entry);
+      count++;
     }
+
+    this.evictOldest(buffer, count, bytes);
+  }
+
+  /**
+   * Enforce the byte limit across all processes
+   * Entries are evicted from the process using the most memory first, so that a single
+   * noisy process does not push out the logs of the others
+   */
+  private enforceTotalLimit(): void {
+    while (this.totalBytes > this.maxTotalBytes) {
+      const [largest, runnerUp] = [...this.buffers.values()].sort((a, b) => b.bytes - a.bytes);
+      if (!largest || largest.logs.length <= 1) {
+        return;
+      }
+
+      const excess = this.totalBytes - this.maxTotalBytes;
+      let count = 0;
+      let bytes = 0;
+      for (const entry of largest.logs.slice(0, -1)) {
+        bytes += this.getEntrySize(entry);
+        count++;
+        if (bytes >= excess || largest.bytes - bytes <= (runnerUp?.bytes ?? 0)) {
+          break;
+        }
+      }
+
+      this.evictOldest(largest, count, bytes);
+    }
+  }
+
+  /**
+   * Remove the oldest entries of a process buffer
+   * @param buffer Process log buffer
+   * @param count Number of entries to remove
+   * @param bytes Size of the removed entries in bytes
+   */
+  private evictOldest(buffer: LogBufferElement, count: number, bytes: number): void {
+    if (count === 0) {
+      return;
+    }
+    buffer.logs = buffer.logs.slice(count);
+    buffer.bytes -= bytes;
+    this.totalBytes -= bytes;
+  }
+
+  /**
+   * @param entry Log entry
+   * @returns Approximate memory used by the entry content in bytes
+   */
+  private getEntrySize(entry: LogEntry): number {
+    return Buffer.byteLength(entry.line) + (entry.raw !== undefined ? Buffer.byteLength(entry.raw) : 0);
+  }
+
+  /**
+   * Attach the parsed content of JSON log records
+   * @param processId Process ID
+   * @param entry Log entry
+   * @returns Entry with `structured` set if the line is a JSON log record
+   */
+  private withStructured(processId: string, entry: LogEntry): LogEntry {
+    if (entry.type === 'stdin' || this.processOptions.get(processId)?.parseJson === false) {
+      return entry;
+    }
+    const structured = this.jsonParser.parse(entry.line);
+    return structured ? { ...entry, structured } : entry;
+  }
+
+  /**
+   * @param entry Log entry
+   * @param query Search conditions
+   * @returns Whether the entry satisfies the level and field conditions
+   */
+  private matchesStructured(entry: LogEntry, query: LogQuery): boolean {
+    if (query.level === undefined && query.fields === undefined) {
+      return true;
+    }
+
+    const { structured } = entry;
+    if (!structured) {
+      return false;
+    }
+    if (query.level !== undefined
+      && (structured.level === undefined || LOG_LEVELS.indexOf(structured.level) < LOG_LEVELS.indexOf(query.level))) {
+      return false;
+    }
+
+    return Object.entries(query.fields ?? {}).every(([path, expected]) => {
+      // Values are compared as text so that "500" matches a numeric status code
+      const value = this.getStructuredField(structured, path);
+      return (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')
+        && String(value) === String(expected);
+    });
+  }
+
+  /**
+   * @param structured Parsed JSON log record
+   * @param path Field name, with dots separating nested fields
+   * @returns Field value (undefined if missing)
+   */
+  private getStructuredField(structured: StructuredLog, path: string): unknown {
+    if (path === 'level' || path === 'msg') {
+      return structured[path];
+    }
+    return path.split('.').reduce<unknown>(
+      (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+      structured.fields,
+    );
+  }
+
+  /**
+   * Filter, group and search entries, before the line limit is applied
+   * @param entries Entries in chronological order
+   * @param query Search conditions
+   * @param pattern Compiled grep pattern
+   * @returns Selected entries
+   */
+  private selectLogs(entries: LogEntry[], query: LogQuery, pattern?: RegExp): LogEntry[] {
+    const afterCursor = query.afterCursor ?? 0;
+    const beforeCursor = query.beforeCursor ?? Infinity;
+    const selected = query.raw === true
+      ? entries.map(({ raw, ...entry }) => ({ ...entry, line: raw ?? entry.line }))
+      : entries;
+    const filtered = selected.filter(entry =>
+      entry.seq > afterCursor
+      && entry.seq < beforeCursor
+      && this.matchesStream(entry, query.stream)
+      && (query.since === undefined || entry.timestamp >= query.since)
+      && (query.until === undefined || entry.timestamp <= query.until)
+      && this.matchesStructured(entry, query),
+    );
+    const candidates = query.group === true ? this.eventGrouper.group(filtered) : filtered;
+
+    return pattern
+      ? this.selectMatches(candidates, pattern, query)
+      : candidates;
+  }
+
+  /**
+   * Check whether a query reaches entries that are only available on disk
+   * A `beforeCursor` without a lower bound pages back, which reaches the disk only when
+   * the cursor is older than the memory buffer or the requested lines are not all in memory
+   * @param buffer Process log buffer
+   * @param query Search conditions
+   * @param selectedInMemory Number of entries selected from memory
+   * @returns Whether persisted history should be read
+   */
+  private needsHistory(buffer: LogBufferElement, query: LogQuery, selectedInMemory: number): boolean {
+    const firstEntry = buffer.logs[0];
+    const firstSeq = firstEntry?.seq ?? buffer.nextSeq;
+    if (!this.logStore.isEnabled() || firstSeq <= 1) {
+      return false;
+    }
+
+    if (query.afterCursor !== undefined) {
+      return query.afterCursor < firstSeq - 1;
+    }
+    if (query.beforeCursor !== undefined
+      && (query.beforeCursor <= firstSeq || query.lines === undefined || query.lines <= 0 || selectedInMemory < query.lines)) {
+      return true;
+    }
+    return query.since !== undefined && (firstEntry === undefined || query.since < firstEntry.timestamp);
+  }
+
+  /**
+   * @param entry Log entry
+   * @param stream Stream to include (all streams if omitted)
+   * @returns Whether the entry belongs to the stream
+   */
+  private matchesStream(entry: LogEntry, stream?: LogStream): boolean {
+    if (stream === undefined) {
+      return true;
+    }
+    if (stream === 'both') {
+      return entry.type !== 'stdin';
+    }
+    return entry.type === stream;
+  }
+
+  /**
+   * Select entries matching a pattern together with their context
+   * @param entries Candidate entries
+   * @param pattern Pattern to match
+   * @param query Search conditions
+   * @returns Selected entries in chronological order
+   */
+  private selectMatches(entries: ProcessLogs, pattern: RegExp, query: LogQuery): ProcessLogs {
+    const before = query.before ?? 0;
+    const after = query.after ?? 0;
+    const selected = new Array<boolean>(entries.length).fill(false);
+
+    entries.forEach((entry, index) => {
+      if (pattern.test(entry.line) === (query.invert === true)) {
+        return;
+      }
+      const from = Math.max(0, index - before);
+      const to = Math.min(entries.length - 1, index + after);
+      for (let i = from; i <= to; i++) {
+        selected[i] = true;
+      }
+    });
+
+    return entries.filter((_entry, index) => selected[index]);
+  }
+
+  /**
+   * @param pattern Regular expression source
+   * @param ignoreCase Whether to match case-insensitively
+   * @returns Compiled pattern
+   */
+  private compilePattern(pattern: string, ignoreCase: boolean): RegExp {
+    try {
+      // Multiline so that anchors match each line of a grouped event
+      return new RegExp(pattern, ignoreCase ? 'im' : 'm');
+    }
+    catch (error) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Invalid grep pattern: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Remove ANSI escape sequences and collapse carriage-return redraws
+   * Text after a carriage return overwrites the start of the line, as on a terminal,
+   * unless the segment erases the line, so a progress bar redrawn in place ends up as its final state
+   * @param raw Raw line
+   * @returns Cleaned line
+   */
+  private cleanLine(raw: string): string {
+    return raw
+      .split('\r')
+      .reduce((screen, segment) => {
+        const text = segment.replace(ANSI_ESCAPE_PATTERN, '');
+        return ERASE_LINE_PATTERN.test(segment) ? text : text + screen.slice(text.length);
+      }, '');
   }
 
   /**
    * Split string into lines
+   * Blank lines are kept; only the line break terminating the data does not start a new line
    * @param data String data
    * @returns Array of lines
    */
   private parseLines(data: string): string[] {
     if (!data) return [];
 
-    // Split by newlines and remove empty lines
     return data
-      .split(/\r?\n/)
-      .filter(line => line.length > 0);
+      .replace(/\r?\n$/, '')
+      .split(/\r?\n/);
   }
 }
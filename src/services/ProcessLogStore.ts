@@ -0,0 +1,326 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { inject, injectable } from 'inversify';
+import { z } from 'zod';
+import { type LogEntry } from '@/models/LogData.js';
+import { type ConfigProvider, ConfigProviderTag } from '@/services/ConfigProvider.js';
+import { type Logging, LoggingTag } from '@/services/Logging.js';
+
+export const ProcessLogStoreTag = Symbol.for('ProcessLogStore');
+
+export interface ProcessLogStore {
+  isEnabled: () => boolean;
+  append: (processId: string, entries: LogEntry[]) => void;
+  readHistory: (processId: string, beforeSeq: number) => LogEntry[];
+  close: () => Promise<void>;
+}
+
+const StoredLogEntrySchema = z.object({
+  seq: z.number().int(),
+  timestamp: z.string().datetime(),
+  stream: z.enum(['stdout', 'stderr', 'pty', 'stdin']),
+  line: z.string(),
+  raw: z.string().optional(),
+  truncated: z.boolean().optional(),
+});
+
+type StoredLogEntry = z.infer<typeof StoredLogEntrySchema>;
+
+/**
+ * Active log file of a process
+ */
+type LogFile = {
+  stream: fs.WriteStream;
+  /** Size including data handed to the stream but not yet written */
+  size: number;
+  /** Entries handed to the stream but not yet written, so that history can still be read meanwhile */
+  pending: LogEntry[][];
+};
+
+/** Log files written by this store: `<processId>.jsonl` and rotated `<processId>.<index>.jsonl`, where process IDs are UUIDs */
+const LOG_FILE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?:\.\d+)?\.jsonl$/;
+
+/**
+ * On-disk log sink
+ * Writes log entries of each process to JSONL files through a write stream, with size-based rotation
+ * and a size limit for the whole directory
+ */
+@injectable()
+export class ProcessLogStoreImpl implements ProcessLogStore {
+  private readonly directory: string | undefined;
+  private readonly maxFileBytes: number;
+  private readonly maxFiles: number;
+  private readonly maxDirectoryBytes: number;
+  /** Files of each process by rotation index (the active file first) */
+  private readonly files = new Map<string, LogFile[]>();
+  /** Streams that have not been closed yet, including those of rotated files */
+  private readonly openStreams = new Set<fs.WriteStream>();
+  private disabledAfterError = false;
+  private closed = false;
+
+  constructor(
+    @inject(ConfigProviderTag) configProvider: ConfigProvider,
+    @inject(LoggingTag) private readonly logging: Logging,
+  ) {
+    this.directory = configProvider.getLogDirectory();
+    this.maxFileBytes = configProvider.getLogFileMaxBytes();
+    this.maxFiles = configProvider.getLogFileMaxFiles();
+    this.maxDirectoryBytes = configProvider.getLogDirectoryMaxBytes();
+  }
+
+  /**
+   * @returns Whether logs are persisted to disk
+   */
+  isEnabled(): boolean {
+    return this.directory !== undefined && !this.disabledAfterError && !this.closed;
+  }
+
+  /**
+   * Append log entries to the process log file, rotating it when it grows too large
+   * @param processId Process ID
+   * @param entries Entries to append
+   */
+  append(processId: string, entries: LogEntry[]): void {
+    if (!this.isEnabled() || entries.length === 0) {
+      return;
+    }
+
+    const data = entries
+      .map(entry => JSON.stringify({
+        seq: entry.seq,
+        timestamp: entry.timestamp.toISOString(),
+        stream: entry.type,
+        line: entry.line,
+        raw: entry.raw,
+        truncated: entry.truncated,
+      } satisfies StoredLogEntry) + '\n')
+      .join('');
+    const bytes = Buffer.byteLength(data);
+
+    try {
+      let file = this.getActiveFile(processId);
+      if (file.size > 0 && file.size + bytes > this.maxFileBytes) {
+        file = this.rotate(processId);
+      }
+
+      const { pending } = file;
+      pending.push(entries);
+      file.size += bytes;
+      file.stream.write(data, () => {
+        pending.splice(pending.indexOf(entries), 1);
+      });
+    }
+    catch (error) {
+      this.disable(error);
+    }
+  }
+
+  /**
+   * Read persisted entries older than the given sequence number
+   * @param processId Process ID
+   * @param beforeSeq Exclusive upper bound of sequence numbers
+   * @returns Entries in chronological order
+   */
+  readHistory(processId: string, beforeSeq: number): LogEntry[] {
+    if (this.directory === undefined) {
+      return [];
+    }
+
+    const files = this.files.get(processId) ?? [];
+    const entries: LogEntry[] = [];
+    for (let index = this.maxFiles - 1; index >= 0; index--) {
+      let content = '';
+      try {
+        content = fs.readFileSync(this.getFilePath(processId, index), 'utf-8');
+      }
+      catch {
+        // Not created yet, or nothing written to it yet
+      }
+
+      const fileEntries = content.split('\n').flatMap(line => this.parseEntry(line) ?? []);
+      const lastWrittenSeq = fileEntries.at(-1)?.seq ?? 0;
+      const pendingEntries = files[index]?.pending.flat().filter(entry => entry.seq > lastWrittenSeq) ?? [];
+      entries.push(...[...fileEntries, ...pendingEntries].filter(entry => entry.seq < beforeSeq));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Finish writing all log files
+   * Entries appended afterwards are not persisted
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.files.clear();
+    await Promise.all([...this.openStreams].map(async (stream) => {
+      await new Promise<void>((resolve) => {
+        stream.once('close', () => {
+          resolve();
+        });
+        if (!stream.writableEnded) {
+          stream.end();
+        }
+      });
+    }));
+  }
+
+  /**
+   * Open the active log file of a process
+   * @param processId Process ID
+   * @param fresh Whether to create the log directory and remove files left from an earlier process with the same ID
+   * @returns Active log file
+   */
+  private openFile(processId: string, fresh: boolean): LogFile {
+    if (fresh && this.directory !== undefined) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      for (let index = 0; index < this.maxFiles; index++) {
+        fs.rmSync(this.getFilePath(processId, index), { force: true });
+      }
+    }
+
+    // Opened synchronously so that a rotation cannot rename the path before the stream has opened it
+    const stream = fs.createWriteStream('', { fd: fs.openSync(this.getFilePath(processId, 0), 'a') });
+    this.openStreams.add(stream);
+    stream.once('close', () => {
+      this.openStreams.delete(stream);
+    });
+    stream.on('error', (error) => {
+      this.disable(error);
+    });
+
+    return { stream, size: 0, pending: [] };
+  }
+
+  /**
+   * Delete the least recently written log files while the directory exceeds its size limit
+   * Active files are kept, so that only complete rotated files and files of earlier sessions are deleted
+   */
+  private enforceDirectoryLimit(): void {
+    const directory = this.directory;
+    if (directory === undefined) {
+      return;
+    }
+
+    try {
+      const activeFiles = new Set([...this.files.keys()].map(processId => this.getFilePath(processId, 0)));
+      const files = fs.readdirSync(directory)
+        .filter(name => LOG_FILE_PATTERN.test(name))
+        .map((name) => {
+          const filePath = path.join(directory, name);
+          const stats = fs.statSync(filePath);
+          return { filePath, size: stats.size, modifiedMs: stats.mtimeMs };
+        })
+        .sort((a, b) => a.modifiedMs - b.modifiedMs);
+
+      let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      for (const file of files) {
+        if (totalBytes <= this.maxDirectoryBytes) {
+          break;
+        }
+        if (!activeFiles.has(file.filePath)) {
+          fs.rmSync(file.filePath, { force: true });
+          totalBytes -= file.size;
+        }
+      }
+    }
+    catch (error) {
+      this.logging.warn(`Failed to clean up the log directory: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Stop persisting logs after a write failure
+   * @param error Write error
+   */
+  private disable(error: unknown): void {
+    if (this.disabledAfterError) {
+      return;
+    }
+    // Keep capturing logs in memory even if the disk is unavailable
+    this.disabledAfterError = true;
+    this.logging.warn(`Disabling on-disk logs after write failure: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  /**
+   * Get the active log file of a process, opening a fresh one on the first write
+   * @param processId Process ID
+   * @returns Active log file
+   */
+  private getActiveFile(processId: string): LogFile {
+    const active = this.files.get(processId)?.[0];
+    if (active) {
+      return active;
+    }
+
+    const file = this.openFile(processId, true);
+    this.files.set(processId, [file]);
+    this.enforceDirectoryLimit();
+    return file;
+  }
+
+  /**
+   * Shift rotated files, drop the oldest one beyond the retention limit and open a new active file
+   * @param processId Process ID
+   * @returns New active log file
+   */
+  private rotate(processId: string): LogFile {
+    const files = this.files.get(processId) ?? [];
+    // Data still pending on the old stream goes to the renamed file
+    files[0]?.stream.end();
+
+    fs.rmSync(this.getFilePath(processId, this.maxFiles - 1), { force: true });
+    for (let index = this.maxFiles - 2; index >= 0; index--) {
+      const source = this.getFilePath(processId, index);
+      if (fs.existsSync(source)) {
+        fs.renameSync(source, this.getFilePath(processId, index + 1));
+      }
+    }
+
+    const file = this.openFile(processId, false);
+    this.files.set(processId, [file, ...files].slice(0, this.maxFiles));
+    this.enforceDirectoryLimit();
+    return file;
+  }
+
+  /**
+   * @param processId Process ID
+   * @param index Rotation index (0 for the active file)
+   * @returns Log file path
+   */
+  private getFilePath(processId: string, index: number): string {
+    const fileName = index === 0 ? `${processId}.jsonl` : `${processId}.${index}.jsonl`;
+    return path.join(this.directory ?? '', fileName);
+  }
+
+  /**
+   * @param line JSONL line
+   * @returns Parsed entry (undefined if the line is malformed)
+   */
+  private parseEntry(line: string): LogEntry | undefined {
+    if (line.length === 0) {
+      return undefined;
+    }
+    let content: unknown;
+    try {
+      content = JSON.parse(line);
+    }
+    catch {
+      return undefined;
+    }
+
+    const result = StoredLogEntrySchema.safeParse(content);
+    if (!result.success) {
+      return undefined;
+    }
+    const stored = result.data;
+    return {
+      seq: stored.seq,
+      type: stored.stream,
+      line: stored.line,
+      ...(stored.raw !== undefined ? { raw: stored.raw } : {}),
+      ...(stored.truncated === true ? { truncated: true } : {}),
+      timestamp: new Date(stored.timestamp),
+    };
+  }
+}
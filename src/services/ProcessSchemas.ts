@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+/**
+ * Readiness check, shared by the tool inputs and the process definitions of configuration files
+ */
+export const ReadinessCheckSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('log'),
+    pattern: z.string().describe('Regular expression matched against stdout/stderr lines'),
+    timeoutMs: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
+  }),
+  z.object({
+    type: z.literal('port'),
+    port: z.number().describe('TCP port that must accept connections'),
+    host: z.string().optional().describe('Host name (default: localhost)'),
+    timeoutMs: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
+  }),
+  z.object({
+    type: z.literal('http'),
+    url: z.string().describe('URL that must return a 2xx response'),
+    timeoutMs: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
+  }),
+  z.object({
+    type: z.literal('file'),
+    path: z.string().describe('File that must exist (relative to cwd)'),
+    timeoutMs: z.number().optional().describe('Timeout in milliseconds (default: 30000)'),
+  }),
+]);
+
+/**
+ * Restart policy, shared by the tool inputs and the process definitions of configuration files
+ */
+export const RestartPolicySchema = z.object({
+  mode: z.enum(['never', 'on-failure', 'always']).describe('When to restart the process after it exits'),
+  maxRetries: z.number().int().min(0).optional().describe('Maximum consecutive restart attempts (default: 5)'),
+  backoffMs: z.number().int().min(0).optional().describe('Initial backoff delay in milliseconds, doubled on each attempt (default: 1000)'),
+  maxBackoffMs: z.number().int().min(0).optional().describe('Maximum backoff delay in milliseconds (default: 30000)'),
+  resetWindowMs: z.number().int().min(0).optional().describe('Run duration in milliseconds after which the attempt counter is reset (default: 60000)'),
+});
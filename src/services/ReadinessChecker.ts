@@ -0,0 +1,257 @@
+import { access } from 'fs/promises';
+import * as http from 'http';
+import * as https from 'https';
+import { createConnection } from 'net';
+import * as path from 'path';
+import { inject, injectable } from 'inversify';
+import { ErrorType, ProcessError } from '@/models/errors.js';
+import { type ReadinessCheck, type ReadinessResult, type ReadinessState } from '@/models/Readiness.js';
+import { type ProcessLogBuffer, ProcessLogBufferTag } from '@/services/ProcessLogBuffer.js';
+
+export const ReadinessCheckerTag = Symbol.for('ReadinessChecker');
+
+export interface ReadinessChecker {
+  validate: (check: ReadinessCheck) => void;
+  waitUntilReady: (params: {
+    processId: string;
+    cwd: string;
+    check: ReadinessCheck;
+    signal: AbortSignal;
+    logCursor?: number;
+  }) => Promise<ReadinessResult>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const POLL_INTERVAL_MS = 200;
+const HTTP_PROTOCOLS = ['http:', 'https:'];
+
+/**
+ * Readiness check service
+ * Waits until a started process reports that it is ready to serve
+ */
+@injectable()
+export class ReadinessCheckerImpl implements ReadinessChecker {
+  constructor(
+    @inject(ProcessLogBufferTag) private readonly logBuffer: ProcessLogBuffer,
+  ) {}
+
+  /**
+   * Validate a readiness check before the process is spawned
+   * @param check Readiness check
+   */
+  validate(check: ReadinessCheck): void {
+    if (check.timeoutMs !== undefined && check.timeoutMs <= 0) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Readiness timeout must be positive: ${check.timeoutMs}`,
+      );
+    }
+
+    switch (check.type) {
+      case 'log':
+        this.compilePattern(check.pattern);
+        break;
+      case 'port':
+        if (!Number.isInteger(check.port) || check.port <= 0 || check.port > 65535) {
+          throw new ProcessError(
+            ErrorType.VALIDATION_ERROR,
+            `Invalid readiness port: ${check.port}`,
+          );
+        }
+        break;
+      case 'http':
+        // URLs without a scheme such as `localhost:3000/health` parse with `localhost:` as the protocol
+        if (!URL.canParse(check.url) || !HTTP_PROTOCOLS.includes(new URL(check.url).protocol)) {
+          throw new ProcessError(
+            ErrorType.VALIDATION_ERROR,
+            `Invalid readiness URL: ${check.url}`,
+          );
+        }
+        break;
+      case 'file':
+        break;
+    }
+  }
+
+  /**
+   * Wait until the readiness check passes, times out, or the process exits
+   * @param params.processId Process ID
+   * @param params.cwd Working directory of the process
+   * @param params.check Readiness check
+   * @param params.signal Signal aborted when the process exits
+   * @param params.logCursor Cursor the current run's output starts after, so that lines of earlier runs do not match (default: 0)
+   * @returns Readiness result
+   */
+  async waitUntilReady(params: {
+    processId: string;
+    cwd: string;
+    check: ReadinessCheck;
+    signal: AbortSignal;
+    logCursor?: number;
+  }): Promise<ReadinessResult> {
+    const { processId, cwd, check, signal, logCursor = 0 } = params;
+    const startedAt = Date.now();
+
+    return await new Promise<ReadinessResult>((resolve) => {
+      const cleanups: Array<() => void> = [];
+      let settled = false;
+
+      const finish = (state: ReadinessState, matchedLine?: string) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        for (const cleanup of cleanups) {
+          cleanup();
+        }
+        resolve({
+          state,
+          elapsedMs: Date.now() - startedAt,
+          matchedLine,
+        });
+      };
+
+      const timeout = setTimeout(() => {
+        finish('timed_out');
+      }, check.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      cleanups.push(() => {
+        clearTimeout(timeout);
+      });
+
+      const onAbort = () => {
+        finish('exited');
+      };
+      signal.addEventListener('abort', onAbort);
+      cleanups.push(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+
+      if (check.type === 'log') {
+        const pattern = this.compilePattern(check.pattern);
+
+        // Input sent to the process is not output of the process
+        cleanups.push(this.logBuffer.subscribe(processId, (entry) => {
+          if (entry.type !== 'stdin' && pattern.test(entry.line)) {
+            finish('ready', entry.line);
+          }
+        }));
+
+        // Lines may have been captured before subscribing
+        const matched = this.logBuffer.queryLogs(processId, { afterCursor: logCursor }).logs.find(entry => entry.type !== 'stdin' && pattern.test(entry.line));
+        if (matched) {
+          finish('ready', matched.line);
+        }
+      }
+      else {
+        let pollTimer: NodeJS.Timeout | undefined;
+        cleanups.push(() => {
+          clearTimeout(pollTimer);
+        });
+
+        const poll = async () => {
+          // A failing probe counts as not ready rather than becoming an unhandled rejection
+          const ready = await this.probe(check, cwd).catch(() => false);
+          if (settled) {
+            return;
+          }
+          if (ready) {
+            finish('ready');
+            return;
+          }
+          pollTimer = setTimeout(() => {
+            void poll();
+          }, POLL_INTERVAL_MS);
+        };
+        void poll();
+      }
+
+      if (signal.aborted) {
+        finish('exited');
+      }
+    });
+  }
+
+  /**
+   * Run a single non-log readiness probe
+   * @param check Readiness check
+   * @param cwd Working directory of the process
+   * @returns Whether the probe succeeded
+   */
+  private async probe(check: Exclude<ReadinessCheck, { type: 'log' }>, cwd: string): Promise<boolean> {
+    switch (check.type) {
+      case 'port':
+        return await this.probePort(check.port, check.host ?? 'localhost');
+      case 'http':
+        return await this.probeHttp(check.url);
+      case 'file':
+        return await this.probeFile(path.resolve(cwd, check.path));
+    }
+  }
+
+  private async probePort(port: number, host: string): Promise<boolean> {
+    return await new Promise((resolve) => {
+      const socket = createConnection({ port, host });
+      socket.setTimeout(POLL_INTERVAL_MS * 5);
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        resolve(false);
+      });
+      socket.once('error', () => {
+        socket.destroy();
+        resolve(false);
+      });
+    });
+  }
+
+  private async probeHttp(url: string): Promise<boolean> {
+    const client = new URL(url).protocol === 'https:' ? https : http;
+
+    return await new Promise((resolve) => {
+      let request: http.ClientRequest;
+      try {
+        request = client.get(url, { timeout: POLL_INTERVAL_MS * 5 }, (response) => {
+          response.resume();
+          const statusCode = response.statusCode ?? 0;
+          resolve(statusCode >= 200 && statusCode < 300);
+        });
+      }
+      catch {
+        resolve(false);
+        return;
+      }
+      request.once('timeout', () => {
+        request.destroy();
+        resolve(false);
+      });
+      request.once('error', () => {
+        resolve(false);
+      });
+    });
+  }
+
+  private async probeFile(filePath: string): Promise<boolean> {
+    try {
+      await access(filePath);
+      return true;
+    }
+    catch {
+      return false;
+    }
+  }
+
+  private compilePattern(pattern: string): RegExp {
+    try {
+      return new RegExp(pattern);
+    }
+    catch (error) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        `Invalid readiness pattern: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { inject, injectable } from 'inversify';
+import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+import { parseTimestamp } from '@/services/tools/ToolArguments.js';
+
+interface GetErrorsToolArgs {
+  processId: string;
+  run?: number;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+@injectable()
+export class GetErrorsHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(args: GetErrorsToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const summary = await this.processManager.getProcessErrors(args.processId, {
+        run: args.run,
+        since: parseTimestamp('since', args.since),
+        until: parseTimestamp('until', args.until),
+        limit: args.limit,
+      });
+
+      if (!summary) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                success: false,
+                error: `Process not found: ${args.processId}`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              processId: args.processId,
+              totals: summary.totals,
+              omittedGroups: summary.omittedGroups,
+              groups: summary.groups.map(group => ({
+                kind: group.kind,
+                stream: group.stream,
+                message: group.message,
+                stack: group.stack,
+                count: group.count,
+                firstSeen: group.firstSeen.toISOString(),
+                lastSeen: group.lastSeen.toISOString(),
+                firstSeq: group.firstSeq,
+                lastSeq: group.lastSeq,
+              })),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+}
@@ -37,6 +37,7 @@ export class GetInfoHandler {
               success: true,
               process: {
                 id: processInfo.id,
+                name: processInfo.name,
                 pid: processInfo.pid,
                 command: processInfo.command,
                 args: processInfo.args,
@@ -45,6 +46,11 @@ export class GetInfoHandler {
                 startTime: processInfo.startTime,
                 endTime: processInfo.endTime,
                 exitCode: processInfo.exitCode,
+                exitSignal: processInfo.exitSignal,
+                restartCount: processInfo.restartCount,
+                lastRestartTime: processInfo.lastRestartTime,
+                tty: processInfo.tty,
+                runs: processInfo.runs,
               },
             }, null, 2),
           },
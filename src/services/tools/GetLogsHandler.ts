@@ -1,9 +1,26 @@
 import { inject, injectable } from 'inversify';
+import { type LogLevel, type LogStream } from '@/models/LogData.js';
 import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+import { parseTimestamp } from '@/services/tools/ToolArguments.js';
 
 interface GetLogsToolArgs {
   processId: string;
+  run?: number;
   lines?: number;
+  afterCursor?: number;
+  beforeCursor?: number;
+  grep?: string;
+  invert?: boolean;
+  ignoreCase?: boolean;
+  stream?: LogStream;
+  since?: string;
+  until?: string;
+  before?: number;
+  after?: number;
+  raw?: boolean;
+  level?: LogLevel;
+  fields?: Record<string, string | number | boolean>;
+  group?: boolean;
 }
 
 @injectable()
@@ -14,7 +31,24 @@ export class GetLogsHandler {
 
   async handle(args: GetLogsToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-      const logs = await this.processManager.getProcessLogs(args.processId, args.lines);
+      const logs = await this.processManager.getProcessLogs(args.processId, {
+        run: args.run,
+        lines: args.lines,
+        afterCursor: args.afterCursor,
+        beforeCursor: args.beforeCursor,
+        grep: args.grep,
+        invert: args.invert,
+        ignoreCase: args.ignoreCase,
+        stream: args.stream,
+        since: parseTimestamp('since', args.since),
+        until: parseTimestamp('until', args.until),
+        before: args.before,
+        after: args.after,
+        raw: args.raw,
+        level: args.level,
+        fields: args.fields,
+        group: args.group,
+      });
 
       if (!logs) {
         return {
@@ -40,8 +74,25 @@ export class GetLogsHandler {
               logs: {
                 lastUpdated: logs.lastUpdated.toISOString(),
                 totalLines: logs.logs.length,
-                stdout: logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line),
-                stderr: logs.logs.filter(entry => entry.type === 'stderr').map(entry => entry.line),
+                nextCursor: logs.nextCursor,
+                evictedLines: logs.evictedLines,
+                skippedLines: logs.skippedLines,
+                entries: logs.logs.map(entry => ({
+                  seq: entry.seq,
+                  timestamp: entry.timestamp.toISOString(),
+                  stream: entry.type,
+                  line: entry.line,
+                  truncated: entry.truncated,
+                  endSeq: entry.endSeq,
+                  ...(entry.structured
+                    ? {
+                        level: entry.structured.level,
+                        msg: entry.structured.msg,
+                        time: entry.structured.time?.toISOString(),
+                        fields: entry.structured.fields,
+                      }
+                    : {}),
+                })),
               },
             }, null, 2),
           },
@@ -0,0 +1,52 @@
+import { inject, injectable } from 'inversify';
+import { isActiveStatus } from '@/models/ManagedProcess.js';
+import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+
+@injectable()
+export class ListDefinitionsHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const definitions = this.processManager.listDefinitions();
+      const errors = this.processManager.listDefinitionErrors();
+      const processes = await this.processManager.listProcesses();
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              definitions: definitions.map((definition) => {
+                const running = processes.find(process => process.name === definition.name && isActiveStatus(process.status));
+                return {
+                  ...definition,
+                  running: running !== undefined,
+                  processId: running?.id,
+                };
+              }),
+              count: definitions.length,
+              ...(errors.length > 0 ? { errors } : {}),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { inject, injectable } from 'inversify';
+import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+
+type ListScriptsToolArgs = {
+  cwd?: string;
+};
+
+@injectable()
+export class ListScriptsHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(args: ListScriptsToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const project = await this.processManager.listScripts(args.cwd);
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              packageManager: project.packageManager,
+              lockfile: project.lockfile,
+              packages: project.packages,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { inject, injectable } from 'inversify';
+import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+
+interface ResizeToolArgs {
+  processId: string;
+  columns: number;
+  rows: number;
+}
+
+@injectable()
+export class ResizeHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(args: ResizeToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const process = await this.processManager.resizeTerminal(args.processId, {
+        columns: args.columns,
+        rows: args.rows,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              processId: process.id,
+              tty: process.tty,
+              message: 'Terminal resized successfully',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+}
@@ -13,7 +13,7 @@ export class RestartHandler {
 
   async handle(args: RestartToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-      const newProcessId = await this.processManager.restartProcess(args.processId);
+      const process = await this.processManager.restartProcess(args.processId);
 
       return {
         content: [
@@ -21,8 +21,10 @@ export class RestartHandler {
             type: 'text' as const,
             text: JSON.stringify({
               success: true,
-              originalProcessId: args.processId,
-              newProcessId,
+              processId: process.id,
+              pid: process.pid,
+              run: process.runs.at(-1)?.run,
+              status: process.status,
               message: 'Process restarted successfully',
             }, null, 2),
           },
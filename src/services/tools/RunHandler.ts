@@ -0,0 +1,73 @@
+import { inject, injectable } from 'inversify';
+import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+
+interface RunToolArgs {
+  command: string;
+  args?: string[];
+  name?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  timeoutMs?: number;
+  backgroundOnTimeout?: boolean;
+  maxOutputChars?: number;
+}
+
+@injectable()
+export class RunHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(args: RunToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const result = await this.processManager.runProcess({
+        command: args.command,
+        args: args.args ?? [],
+        name: args.name,
+        cwd: args.cwd,
+        env: args.env,
+        timeoutMs: args.timeoutMs,
+        backgroundOnTimeout: args.backgroundOnTimeout,
+        maxOutputChars: args.maxOutputChars,
+      });
+      const { process, stdout, stderr } = result;
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              processId: process.id,
+              name: process.name,
+              state: result.state,
+              status: process.status,
+              exitCode: process.exitCode,
+              exitSignal: process.exitSignal,
+              durationMs: result.durationMs,
+              stdout: stdout.text,
+              stderr: stderr.text,
+              stdoutLines: stdout.lines,
+              stderrLines: stderr.lines,
+              stdoutTruncated: stdout.truncated,
+              stderrTruncated: stderr.truncated,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { inject, injectable } from 'inversify';
+import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+
+interface SendInputToolArgs {
+  processId: string;
+  text?: string;
+  newline?: boolean;
+  close?: boolean;
+}
+
+@injectable()
+export class SendInputHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(args: SendInputToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      if (args.text === undefined && args.close !== true) {
+        throw new Error('Either text or close must be specified');
+      }
+
+      await this.processManager.sendInput(args.processId, {
+        text: args.text,
+        newline: args.newline,
+        close: args.close,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              processId: args.processId,
+              sent: args.text !== undefined,
+              closed: args.close === true,
+              message: args.close === true ? 'Input sent and stdin closed' : 'Input sent successfully',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+}
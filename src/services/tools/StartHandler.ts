@@ -1,11 +1,28 @@
 import { inject, injectable } from 'inversify';
-import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+import { ErrorType, ProcessError } from '@/models/errors.js';
+import { type ManagedProcess } from '@/models/ManagedProcess.js';
+import { type ReadinessCheck } from '@/models/Readiness.js';
+import { type RestartPolicy } from '@/models/RestartPolicy.js';
+import { type BgProcessManager, BgProcessManagerTag, type StartDefinitionOptions } from '@/services/BgProcessManager.js';
 
 type StartToolArgs = {
-  command: string;
+  command?: string;
+  definition?: string;
+  script?: string;
+  package?: string;
+  name?: string;
   args?: string[];
   cwd?: string;
   env?: Record<string, string>;
+  readiness?: ReadinessCheck;
+  restartPolicy?: RestartPolicy;
+  stdin?: 'ignore' | 'pipe';
+  tty?: boolean;
+  columns?: number;
+  rows?: number;
+  queue?: boolean;
+  queueTimeoutMs?: number;
+  jsonLogs?: boolean;
 };
 
 @injectable()
@@ -16,14 +33,23 @@ export class StartHandler {
 
   async handle(args: StartToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-      const config = {
-        command: args.command,
-        args: args.args ?? [],
+      const options = {
+        name: args.name,
+        args: args.args,
         cwd: args.cwd,
         env: args.env,
+        readiness: args.readiness,
+        restartPolicy: args.restartPolicy,
+        stdin: args.stdin,
+        tty: args.tty,
+        columns: args.columns,
+        rows: args.rows,
+        queue: args.queue,
+        queueTimeoutMs: args.queueTimeoutMs,
+        jsonLogs: args.jsonLogs,
       };
 
-      const process = await this.processManager.startProcess(config);
+      const process = await this.startProcess(args, options);
 
       return {
         content: [
@@ -32,12 +58,15 @@ export class StartHandler {
             text: JSON.stringify({
               success: true,
               processId: process.id,
+              name: process.name,
               pid: process.pid,
               command: process.command,
               args: process.args,
               cwd: process.cwd,
               status: process.status,
               startTime: process.startTime,
+              readiness: process.readiness,
+              tty: process.tty,
             }, null, 2),
           },
         ],
@@ -57,4 +86,34 @@ export class StartHandler {
       };
     }
   }
+
+  private async startProcess(args: StartToolArgs, options: StartDefinitionOptions): Promise<ManagedProcess> {
+    const { command, definition, script } = args;
+    if ([command, definition, script].filter(target => target !== undefined).length > 1) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        'Specify only one of command, definition or script',
+      );
+    }
+    if (args.package !== undefined && script === undefined) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        'package can only be used with script',
+      );
+    }
+
+    if (definition !== undefined) {
+      return await this.processManager.startDefinition(definition, options);
+    }
+    if (script !== undefined) {
+      return await this.processManager.startScript(script, { ...options, package: args.package });
+    }
+    if (command === undefined) {
+      throw new ProcessError(
+        ErrorType.VALIDATION_ERROR,
+        'One of command, definition or script is required',
+      );
+    }
+    return await this.processManager.startProcess({ ...options, command, args: options.args ?? [] });
+  }
 }
@@ -1,4 +1,5 @@
 import { inject, injectable } from 'inversify';
+import { isActiveStatus } from '@/models/ManagedProcess.js';
 import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
 
 @injectable()
@@ -11,7 +12,7 @@ export class StopAllHandler {
     try {
       // Get list of processes before stopping them for reporting
       const processes = await this.processManager.listProcesses();
-      const runningProcesses = processes.filter(p => p.status === 'running');
+      const runningProcesses = processes.filter(p => isActiveStatus(p.status));
       const runningCount = runningProcesses.length;
 
       if (runningCount === 0) {
@@ -3,6 +3,9 @@ import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcess
 
 interface StopToolArgs {
   processId: string;
+  signal?: NodeJS.Signals;
+  timeoutMs?: number;
+  force?: boolean;
 }
 
 @injectable()
@@ -13,7 +16,11 @@ export class StopHandler {
 
   async handle(args: StopToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
     try {
-      await this.processManager.stopProcess(args.processId);
+      const result = await this.processManager.stopProcess(args.processId, {
+        signal: args.signal,
+        timeoutMs: args.timeoutMs,
+        force: args.force,
+      });
 
       return {
         content: [
@@ -21,8 +28,11 @@ export class StopHandler {
             type: 'text' as const,
             text: JSON.stringify({
               success: true,
-              processId: args.processId,
-              message: 'Process stopped successfully',
+              processId: result.processId,
+              message: result.alreadyStopped ? 'Process was already stopped' : 'Process stopped successfully',
+              signal: result.signal,
+              escalated: result.escalated,
+              exitCode: result.exitCode,
             }, null, 2),
           },
         ],
@@ -0,0 +1,21 @@
+import { ErrorType, ProcessError } from '@/models/errors.js';
+
+/**
+ * Parse a timestamp tool argument
+ * @param field Argument name used in error messages
+ * @param value ISO 8601 timestamp
+ * @returns Parsed date (undefined if omitted)
+ */
+export function parseTimestamp(field: string, value?: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ProcessError(
+      ErrorType.VALIDATION_ERROR,
+      `Invalid ${field} timestamp: ${value}`,
+    );
+  }
+  return date;
+}
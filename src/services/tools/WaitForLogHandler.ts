@@ -0,0 +1,74 @@
+import { inject, injectable } from 'inversify';
+import { type LogEntry, type LogStream } from '@/models/LogData.js';
+import { type BgProcessManager, BgProcessManagerTag } from '@/services/BgProcessManager.js';
+
+interface WaitForLogToolArgs {
+  processId: string;
+  pattern: string;
+  ignoreCase?: boolean;
+  stream?: LogStream;
+  afterCursor?: number;
+  timeoutMs?: number;
+  context?: number;
+}
+
+@injectable()
+export class WaitForLogHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(args: WaitForLogToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const result = await this.processManager.waitForLog(args.processId, {
+        pattern: args.pattern,
+        ignoreCase: args.ignoreCase,
+        stream: args.stream,
+        afterCursor: args.afterCursor,
+        timeoutMs: args.timeoutMs,
+        context: args.context,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              processId: args.processId,
+              state: result.state,
+              matched: result.state === 'matched',
+              elapsedMs: result.elapsedMs,
+              match: result.match ? this.formatEntry(result.match) : undefined,
+              context: result.context.map(entry => this.formatEntry(entry)),
+              nextCursor: result.nextCursor,
+              exitCode: result.exitCode,
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private formatEntry(entry: LogEntry) {
+    return {
+      seq: entry.seq,
+      timestamp: entry.timestamp.toISOString(),
+      stream: entry.type,
+      line: entry.line,
+    };
+  }
+}
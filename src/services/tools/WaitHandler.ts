@@ -0,0 +1,72 @@
+import { inject, injectable } from 'inversify';
+import { type BgProcessManager, BgProcessManagerTag, type ProcessWaitStatus } from '@/services/BgProcessManager.js';
+
+interface WaitToolArgs {
+  processIds: string[];
+  mode?: 'any' | 'all';
+  timeoutMs?: number;
+  tailLines?: number;
+}
+
+@injectable()
+export class WaitHandler {
+  constructor(
+    @inject(BgProcessManagerTag) private readonly processManager: BgProcessManager,
+  ) {}
+
+  async handle(args: WaitToolArgs): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+    try {
+      const result = await this.processManager.waitForProcesses(args.processIds, {
+        mode: args.mode,
+        timeoutMs: args.timeoutMs,
+        tailLines: args.tailLines,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: true,
+              completed: result.completed,
+              timedOut: !result.completed,
+              elapsedMs: result.elapsedMs,
+              processes: result.processes.map(status => this.formatStatus(status)),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+    catch (error) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  }
+
+  private formatStatus({ process, exited, durationMs, logTail }: ProcessWaitStatus) {
+    return {
+      processId: process.id,
+      name: process.name,
+      status: process.status,
+      running: !exited,
+      exitCode: process.exitCode,
+      exitSignal: process.exitSignal,
+      durationMs,
+      logTail: logTail.map(entry => ({
+        seq: entry.seq,
+        timestamp: entry.timestamp.toISOString(),
+        stream: entry.type,
+        line: entry.line,
+      })),
+    };
+  }
+}
@@ -28,9 +28,8 @@ interface ToolResultData {
   processes?: Array<{ id: string; command: string }>;
   count?: number;
   process?: { id: string; command: string };
-  logs?: { stdout: string; stderr: string };
-  originalProcessId?: string;
-  newProcessId?: string;
+  logs?: { entries: Array<{ timestamp: string; stream: string; line: string }> };
+  run?: number;
   message?: string;
   stoppedCount?: number;
   stoppedProcesses?: unknown[];
@@ -215,13 +214,13 @@ describe('MCP Tools Integration Tests', () => {
 
       expect(response.result).toBeDefined();
       const toolsResult = response.result as ToolsListResult;
-      expect(toolsResult.tools).toHaveLength(7);
+      expect(toolsResult.tools).toHaveLength(15);
 
       const toolNames = toolsResult.tools.map((tool: { name: string }) => tool.name);
       expect(toolNames).toEqual(
         expect.arrayContaining([
           'start', 'stop', 'restart', 'stop_all',
-          'list', 'get_info', 'get_logs',
+          'list', 'list_definitions', 'list_scripts', 'get_info', 'get_logs', 'get_errors', 'wait_for_log', 'wait', 'run', 'send_input', 'resize',
         ]),
       );
     });
@@ -312,8 +311,7 @@ describe('MCP Tools Integration Tests', () => {
       expect(result.success).toBe(true);
       expect(result.processId).toBe(testProcessId);
       expect(result.logs).toBeDefined();
-      expect(result.logs!.stdout).toBeDefined();
-      expect(result.logs!.stderr).toBeDefined();
+      expect(result.logs!.entries).toBeDefined();
     });
   });
 
@@ -371,13 +369,9 @@ describe('MCP Tools Integration Tests', () => {
       const result = tester.parseToolResult(response);
 
       expect(result.success).toBe(true);
-      expect(result.originalProcessId).toBe(longRunningProcessId);
-      expect(result.newProcessId).toBeDefined();
-      expect(result.newProcessId).not.toBe(longRunningProcessId);
+      expect(result.processId).toBe(longRunningProcessId);
+      expect(result.run).toBe(2);
       expect(result.message).toContain('restarted successfully');
-
-      // Update process ID for cleanup
-      longRunningProcessId = result.newProcessId!;
     });
 
     it('should stop specific process using stop tool', async () => {
@@ -409,18 +403,18 @@ describe('MCP Tools Integration Tests', () => {
       await tester.sendMCPMessage('tools/call', {
         name: 'start',
         arguments: {
-          command: 'echo',
-          args: ['test1'],
-          name: 'test-echo-1',
+          command: 'sleep',
+          args: ['10'],
+          name: 'test-sleep-1',
         },
       });
 
       await tester.sendMCPMessage('tools/call', {
         name: 'start',
         arguments: {
-          command: 'echo',
-          args: ['test2'],
-          name: 'test-echo-2',
+          command: 'sleep',
+          args: ['10'],
+          name: 'test-sleep-2',
         },
       });
 
@@ -1,41 +1,75 @@
+import type { TerminalSize } from '@/models/ManagedProcess.js';
 import type { ProcessController, ProcessSpawnConfig, ProcessSpawnResult } from '@/services/ProcessController.js';
 
+type MockListeners = {
+  exit: Array<(code: number | null, signal: NodeJS.Signals | null) => void>;
+  error: Array<(error: Error) => void>;
+  stdout: Array<(data: Buffer) => void>;
+  stderr: Array<(data: Buffer) => void>;
+};
+
 export class MockProcessController implements ProcessController {
   private readonly processes = new Map<number, { config: ProcessSpawnConfig; exitCode?: number }>();
+  private readonly listeners = new Map<number, MockListeners>();
+  private readonly signals = new Map<number, NodeJS.Signals[]>();
+  private readonly termIgnoringPids = new Set<number>();
+  private readonly stdinWrites = new Map<number, string[]>();
+  private readonly closedStdinPids = new Set<number>();
+  private readonly terminalSizes = new Map<number, TerminalSize>();
   private nextPid = 1000;
 
   async spawn(config: ProcessSpawnConfig): Promise<ProcessSpawnResult> {
     const pid = this.nextPid++;
     this.processes.set(pid, { config });
 
+    const listeners: MockListeners = { exit: [], error: [], stdout: [], stderr: [] };
+    this.listeners.set(pid, listeners);
+
     return {
       pid,
-      onExit: (_callback: (code: number | null) => void) => {
-        // Mock implementation - does nothing
+      onExit: (callback: (code: number | null, signal: NodeJS.Signals | null) => void) => {
+        listeners.exit.push(callback);
+      },
+      onError: (callback: (error: Error) => void) => {
+        listeners.error.push(callback);
       },
-      onError: (_callback: (error: Error) => void) => {
-        // Mock implementation - does nothing
+      onStdout: (callback: (data: Buffer) => void) => {
+        listeners.stdout.push(callback);
       },
-      onStdout: (_callback: (data: Buffer) => void) => {
-        // Mock implementation - does nothing
+      onStderr: (callback: (data: Buffer) => void) => {
+        listeners.stderr.push(callback);
       },
-      onStderr: (_callback: (data: Buffer) => void) => {
-        // Mock implementation - does nothing
+      writeStdin: async (data: string) => {
+        if (config.stdin !== 'pipe' && !config.tty) {
+          throw new Error('stdin is not piped');
+        }
+        if (this.closedStdinPids.has(pid)) {
+          throw new Error('stdin is closed');
+        }
+        this.stdinWrites.set(pid, [...this.stdinWrites.get(pid) ?? [], data]);
+      },
+      closeStdin: () => {
+        this.closedStdinPids.add(pid);
       },
     };
   }
 
-  kill(pid: number, force = false): boolean {
+  kill(pid: number, signal: NodeJS.Signals = 'SIGTERM'): boolean {
     const process = this.processes.get(pid);
     if (!process) {
       return false;
     }
 
-    process.exitCode = force ? 9 : 0;
+    this.signals.set(pid, [...this.signals.get(pid) ?? [], signal]);
+    if (signal !== 'SIGKILL' && this.termIgnoringPids.has(pid)) {
+      return true;
+    }
+
+    process.exitCode = signal === 'SIGKILL' ? 9 : 0;
     return true;
   }
 
-  async waitForExit(pid: number, _timeoutMs = 5000): Promise<void> {
+  async waitForExit(pid: number, _timeoutMs = 5000): Promise<boolean> {
     const process = this.processes.get(pid);
     if (!process) {
       throw new Error(`Process ${pid} not found`);
@@ -43,7 +77,24 @@ export class MockProcessController implements ProcessController {
 
     // Simulate process exit
     await new Promise(resolve => setTimeout(resolve, 10));
+    if (this.termIgnoringPids.has(pid) && !this.signals.get(pid)?.includes('SIGKILL')) {
+      return false;
+    }
     process.exitCode = 0;
+    return true;
+  }
+
+  async resize(pid: number, size: TerminalSize): Promise<void> {
+    const process = this.processes.get(pid);
+    if (!process?.config.tty) {
+      throw new Error(`Terminal of process ${pid} not found`);
+    }
+    this.terminalSizes.set(pid, size);
+  }
+
+  isAlive(pid: number): boolean {
+    const process = this.processes.get(pid);
+    return process !== undefined && process.exitCode === undefined;
   }
 
   // Test helper methods
@@ -51,11 +102,63 @@ export class MockProcessController implements ProcessController {
     return this.processes.get(pid);
   }
 
+  getLastPid(): number {
+    return this.nextPid - 1;
+  }
+
+  emitStdout(pid: number, data: string | Buffer) {
+    for (const callback of this.listeners.get(pid)?.stdout ?? []) {
+      callback(typeof data === 'string' ? Buffer.from(data) : data);
+    }
+  }
+
+  emitStderr(pid: number, data: string | Buffer) {
+    for (const callback of this.listeners.get(pid)?.stderr ?? []) {
+      callback(typeof data === 'string' ? Buffer.from(data) : data);
+    }
+  }
+
+  emitExit(pid: number, code: number | null, signal: NodeJS.Signals | null = null) {
+    const process = this.processes.get(pid);
+    if (process) {
+      process.exitCode = code ?? undefined;
+    }
+    for (const callback of this.listeners.get(pid)?.exit ?? []) {
+      callback(code, signal);
+    }
+  }
+
+  getTerminalSize(pid: number): TerminalSize | undefined {
+    return this.terminalSizes.get(pid) ?? this.processes.get(pid)?.config.tty;
+  }
+
+  getStdinWrites(pid: number): string[] {
+    return this.stdinWrites.get(pid) ?? [];
+  }
+
+  isStdinClosed(pid: number): boolean {
+    return this.closedStdinPids.has(pid);
+  }
+
+  ignoreTermSignals(pid: number) {
+    this.termIgnoringPids.add(pid);
+  }
+
+  getSignals(pid: number): NodeJS.Signals[] {
+    return this.signals.get(pid) ?? [];
+  }
+
   getAllProcesses() {
     return Array.from(this.processes.entries());
   }
 
   clear() {
     this.processes.clear();
+    this.listeners.clear();
+    this.signals.clear();
+    this.termIgnoringPids.clear();
+    this.stdinWrites.clear();
+    this.closedStdinPids.clear();
+    this.terminalSizes.clear();
   }
 }
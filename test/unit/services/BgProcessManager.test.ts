@@ -1,13 +1,40 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { BgProcessManagerImpl, type BgProcessManager } from '@/services/BgProcessManager.js';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessControllerImpl } from '@/services/ProcessController.js';
 import { ProcessLogBufferImpl, type ProcessLogBuffer } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
 import { MockProcessController } from '@~test/mocks/MockProcessController.js';
-import type { ProcessController } from '@/services/ProcessController.js';
+
+/**
+ * Check whether a process is running (zombies count as exited)
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  }
+  catch {
+    return false;
+  }
+
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2, stat.lastIndexOf(')') + 3) !== 'Z';
+  }
+  catch {
+    return true;
+  }
+}
 
 describe('BgProcessManager', () => {
   let processManager: BgProcessManager;
-  let mockProcessController: ProcessController;
+  let mockProcessController: MockProcessController;
   let logBuffer: ProcessLogBuffer;
   let configProvider: ConfigProviderImpl;
 
@@ -18,11 +45,13 @@ describe('BgProcessManager', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    logBuffer = new ProcessLogBufferImpl(configProvider);
+    logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
 
     processManager = new BgProcessManagerImpl(
       logBuffer,
       mockProcessController,
+      new ReadinessCheckerImpl(logBuffer),
+      configProvider,
     );
   });
 
@@ -78,6 +107,67 @@ describe('BgProcessManager', () => {
       expect(result.cwd).toBe(process.cwd()); // Default cwd is current working directory
       // env is not part of ManagedProcess interface
     });
+
+    it('should be starting until the readiness check passes', async () => {
+      // Arrange
+      const startPromise = processManager.startProcess({
+        command: 'node',
+        args: ['server.js'],
+        readiness: { type: 'log', pattern: 'Listening on \\d+' },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const pid = mockProcessController.getLastPid();
+
+      const [starting] = await processManager.listProcesses();
+      expect(starting?.status).toBe('starting');
+
+      // Act
+      mockProcessController.emitStdout(pid, 'Listening on 3000\n');
+      const result = await startPromise;
+
+      // Assert
+      expect(result.status).toBe('running');
+      expect(result.readiness?.state).toBe('ready');
+      expect(result.readiness?.matchedLine).toBe('Listening on 3000');
+    });
+
+    it('should report exited when the process exits before becoming ready', async () => {
+      // Arrange
+      const startPromise = processManager.startProcess({
+        command: 'node',
+        readiness: { type: 'log', pattern: 'ready' },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      // Act
+      mockProcessController.emitExit(mockProcessController.getLastPid(), 1);
+      const result = await startPromise;
+
+      // Assert
+      expect(result.status).toBe('error');
+      expect(result.readiness?.state).toBe('exited');
+    });
+
+    it('should keep running when the readiness check times out', async () => {
+      // Act
+      const result = await processManager.startProcess({
+        command: 'node',
+        readiness: { type: 'log', pattern: 'ready', timeoutMs: 20 },
+      });
+
+      // Assert
+      expect(result.status).toBe('running');
+      expect(result.readiness?.state).toBe('timed_out');
+    });
+
+    it('should reject an invalid readiness check before spawning', async () => {
+      // Act & Assert
+      await expect(processManager.startProcess({
+        command: 'node',
+        readiness: { type: 'log', pattern: '(' },
+      })).rejects.toThrow('Invalid readiness pattern');
+      expect(mockProcessController.getAllProcesses()).toHaveLength(0);
+    });
   });
 
   describe('stopProcess', () => {
@@ -95,6 +185,72 @@ describe('BgProcessManager', () => {
       expect(stoppedProcess).toBeDefined();
     });
 
+    it('should send SIGTERM and wait for the configured termination timeout', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+      const waitForExit = vi.spyOn(mockProcessController, 'waitForExit');
+
+      // Act
+      const result = await processManager.stopProcess(process.id);
+
+      // Assert
+      expect(waitForExit).toHaveBeenCalledWith(process.pid, 5000);
+      expect(mockProcessController.getSignals(process.pid)).toEqual(['SIGTERM']);
+      expect(result).toMatchObject({ processId: process.id, alreadyStopped: false, signal: 'SIGTERM', escalated: false });
+    });
+
+    it('should escalate to SIGKILL when the process survives the grace period', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+      mockProcessController.ignoreTermSignals(process.pid);
+
+      // Act
+      const result = await processManager.stopProcess(process.id, { timeoutMs: 10 });
+
+      // Assert
+      expect(mockProcessController.getSignals(process.pid)).toEqual(['SIGTERM', 'SIGKILL']);
+      expect(result.escalated).toBe(true);
+      expect(result.signal).toBe('SIGKILL');
+    });
+
+    it('should send the requested signal', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+
+      // Act
+      const result = await processManager.stopProcess(process.id, { signal: 'SIGINT' });
+
+      // Assert
+      expect(mockProcessController.getSignals(process.pid)).toEqual(['SIGINT']);
+      expect(result.signal).toBe('SIGINT');
+    });
+
+    it('should send SIGKILL immediately when forced', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+
+      // Act
+      const result = await processManager.stopProcess(process.id, { signal: 'SIGINT', force: true });
+
+      // Assert
+      expect(mockProcessController.getSignals(process.pid)).toEqual(['SIGKILL']);
+      expect(result.signal).toBe('SIGKILL');
+      expect(result.escalated).toBe(false);
+    });
+
+    it('should report an already stopped process', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'echo' });
+      mockProcessController.emitExit(process.pid, 0);
+
+      // Act
+      const result = await processManager.stopProcess(process.id);
+
+      // Assert
+      expect(result.alreadyStopped).toBe(true);
+      expect(mockProcessController.getSignals(process.pid)).toEqual([]);
+    });
+
     it('should throw error for non-existent process', async () => {
       // Arrange
       const nonExistentId = 'non-existent-id';
@@ -160,18 +316,86 @@ describe('BgProcessManager', () => {
       const originalPid = process.pid;
 
       // Act
-      const newProcessId = await processManager.restartProcess(process.id);
+      const restarted = await processManager.restartProcess(process.id);
 
       // Assert
-      expect(newProcessId).toBeDefined();
-      expect(newProcessId).not.toBe(process.id);
+      expect(restarted.id).toBe(process.id);
 
-      const newProcess = await processManager.getProcessInfo(newProcessId);
+      const newProcess = await processManager.getProcessInfo(process.id);
       expect(newProcess).toBeDefined();
       expect(newProcess?.pid).not.toBe(originalPid);
       expect(newProcess?.command).toBe('echo');
     });
 
+    it('should not match the readiness line of the previous run', async () => {
+      // Arrange
+      const startPromise = processManager.startProcess({
+        command: 'node',
+        readiness: { type: 'log', pattern: 'ready', timeoutMs: 50 },
+      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      mockProcessController.emitStdout(mockProcessController.getLastPid(), 'ready\n');
+      const process = await startPromise;
+      expect(process.readiness?.state).toBe('ready');
+
+      // Act
+      const restarted = await processManager.restartProcess(process.id);
+
+      // Assert
+      expect(restarted.readiness?.state).toBe('timed_out');
+    });
+
+    it('should not leave a process running when restarts overlap', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', restartPolicy: { mode: 'always' } });
+
+      // Act
+      const results = await Promise.allSettled([
+        processManager.restartProcess(process.id),
+        processManager.restartProcess(process.id),
+      ]);
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      const alivePids = Array.from({ length: mockProcessController.getLastPid() - process.pid + 1 }, (_, index) => process.pid + index)
+        .filter(pid => mockProcessController.isAlive(pid));
+      expect(alivePids).toEqual([info?.pid]);
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('should keep the run history and the logs of each run', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+      mockProcessController.emitStdout(process.pid, 'first run\n');
+      mockProcessController.emitExit(process.pid, 1);
+
+      // Act
+      const restarted = await processManager.restartProcess(process.id);
+      mockProcessController.emitStdout(restarted.pid, 'second run\n');
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      expect(info?.runs.map(run => run.run)).toEqual([1, 2]);
+      expect(info?.runs[0]).toMatchObject({ pid: process.pid, exitCode: 1 });
+      expect(info?.runs[1]).toMatchObject({ pid: restarted.pid });
+      expect(info?.runs[1]?.endTime).toBeUndefined();
+
+      const previous = await processManager.getProcessLogs(process.id, { run: -1 });
+      const current = await processManager.getProcessLogs(process.id, { run: 0 });
+      const all = await processManager.getProcessLogs(process.id);
+      expect(previous?.logs.map(entry => entry.line)).toEqual(['first run']);
+      expect(current?.logs.map(entry => entry.line)).toEqual(['second run']);
+      expect(all?.logs.map(entry => entry.line)).toEqual(['first run', 'second run']);
+    });
+
+    it('should reject an unknown run', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+
+      // Act & Assert
+      await expect(processManager.getProcessLogs(process.id, { run: -1 })).rejects.toThrow('Run not found: -1');
+    });
+
     it('should throw error for non-existent process', async () => {
       // Arrange
       const nonExistentId = 'non-existent-id';
@@ -183,6 +407,738 @@ describe('BgProcessManager', () => {
     });
   });
 
+  describe('process names', () => {
+    it('should persist the process name', async () => {
+      // Act
+      const process = await processManager.startProcess({ command: 'vite', name: 'frontend' });
+
+      // Assert
+      expect(process.name).toBe('frontend');
+      const info = await processManager.getProcessInfo('frontend');
+      expect(info?.id).toBe(process.id);
+    });
+
+    it('should reject a name used by a running process', async () => {
+      // Arrange
+      await processManager.startProcess({ command: 'vite', name: 'frontend' });
+
+      // Act & Assert
+      await expect(processManager.startProcess({ command: 'vite', name: 'frontend' })).rejects.toThrow(
+        'Process name already in use: frontend',
+      );
+    });
+
+    it('should reject a name used by a concurrent start', async () => {
+      // Act
+      const results = await Promise.allSettled([
+        processManager.startProcess({ command: 'vite', name: 'frontend' }),
+        processManager.startProcess({ command: 'vite', name: 'frontend' }),
+      ]);
+
+      // Assert
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect(await processManager.listProcesses()).toHaveLength(1);
+    });
+
+    it('should allow reusing the name of an exited process', async () => {
+      // Arrange
+      const first = await processManager.startProcess({ command: 'vite', name: 'frontend' });
+      mockProcessController.emitExit(first.pid, 1);
+
+      // Act
+      const second = await processManager.startProcess({ command: 'vite', name: 'frontend' });
+
+      // Assert
+      const info = await processManager.getProcessInfo('frontend');
+      expect(info?.id).toBe(second.id);
+    });
+
+    it('should stop, restart and get logs by name', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', name: 'api' });
+      mockProcessController.emitStdout(process.pid, 'hello\n');
+
+      // Act
+      const logs = await processManager.getProcessLogs('api');
+      const restartedProcess = await processManager.restartProcess('api');
+      await processManager.stopProcess('api');
+
+      // Assert
+      expect(logs?.logs.map(entry => entry.line)).toEqual(['hello']);
+      const restarted = await processManager.getProcessInfo('api');
+      expect(restarted?.id).toBe(restartedProcess.id);
+      expect(restarted?.name).toBe('api');
+    });
+
+    it('should throw error for unknown name', async () => {
+      // Act & Assert
+      await expect(processManager.stopProcess('unknown')).rejects.toThrow('Process not found: unknown');
+    });
+  });
+
+  describe('restart policy', () => {
+    const waitForRestart = async () => await new Promise(resolve => setTimeout(resolve, 30));
+
+    it('should restart a failed process with the same ID', async () => {
+      // Arrange
+      const process = await processManager.startProcess({
+        command: 'tsc',
+        args: ['--watch'],
+        restartPolicy: { mode: 'on-failure', backoffMs: 1 },
+      });
+
+      // Act
+      mockProcessController.emitExit(process.pid, 1);
+      await waitForRestart();
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      expect(info?.status).toBe('running');
+      expect(info?.pid).not.toBe(process.pid);
+      expect(info?.restartCount).toBe(1);
+      expect(info?.lastRestartTime).toBeInstanceOf(Date);
+      expect(info?.exitCode).toBeUndefined();
+    });
+
+    it('should not restart on success with on-failure mode', async () => {
+      // Arrange
+      const process = await processManager.startProcess({
+        command: 'echo',
+        restartPolicy: { mode: 'on-failure', backoffMs: 1 },
+      });
+
+      // Act
+      mockProcessController.emitExit(process.pid, 0);
+      await waitForRestart();
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      expect(info?.status).toBe('stopped');
+      expect(info?.restartCount).toBe(0);
+    });
+
+    it('should restart on success with always mode', async () => {
+      // Arrange
+      const process = await processManager.startProcess({
+        command: 'echo',
+        restartPolicy: { mode: 'always', backoffMs: 1 },
+      });
+
+      // Act
+      mockProcessController.emitExit(process.pid, 0);
+      await waitForRestart();
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      expect(info?.status).toBe('running');
+      expect(info?.restartCount).toBe(1);
+    });
+
+    it('should give up after maxRetries consecutive failures', async () => {
+      // Arrange
+      const process = await processManager.startProcess({
+        command: 'tsc',
+        restartPolicy: { mode: 'on-failure', maxRetries: 2, backoffMs: 1 },
+      });
+
+      // Act
+      for (let i = 0; i < 3; i++) {
+        const current = await processManager.getProcessInfo(process.id);
+        mockProcessController.emitExit(current?.pid ?? 0, 1);
+        await waitForRestart();
+      }
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      expect(info?.status).toBe('error');
+      expect(info?.restartCount).toBe(2);
+    });
+
+    it('should not restart a process that was stopped explicitly', async () => {
+      // Arrange
+      const process = await processManager.startProcess({
+        command: 'tsc',
+        restartPolicy: { mode: 'always', backoffMs: 1 },
+      });
+
+      // Act
+      await processManager.stopProcess(process.id);
+      mockProcessController.emitExit(process.pid, null);
+      await waitForRestart();
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      expect(info?.status).toBe('error');
+      expect(info?.restartCount).toBe(0);
+    });
+
+    it('should cancel a pending restart when stopped', async () => {
+      // Arrange
+      const process = await processManager.startProcess({
+        command: 'tsc',
+        restartPolicy: { mode: 'on-failure', backoffMs: 20 },
+      });
+      mockProcessController.emitExit(process.pid, 1);
+
+      // Act
+      await processManager.stopProcess(process.id);
+      await waitForRestart();
+
+      // Assert
+      const info = await processManager.getProcessInfo(process.id);
+      expect(info?.pid).toBe(process.pid);
+      expect(info?.restartCount).toBe(0);
+    });
+  });
+
+  describe('output lines', () => {
+    it('should join a line split across chunks', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['server.js'] });
+
+      // Act
+      mockProcessController.emitStdout(process.pid, 'Listening on ');
+      mockProcessController.emitStdout(process.pid, 'port 3000\nReady');
+
+      // Assert
+      const logs = await processManager.getProcessLogs(process.id);
+      expect(logs?.logs.map(entry => entry.line)).toEqual(['Listening on port 3000']);
+    });
+
+    it('should decode a multibyte character split across chunks', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['server.js'] });
+      const data = Buffer.from('ビルド完了\n');
+
+      // Act
+      mockProcessController.emitStderr(process.pid, data.subarray(0, 4));
+      mockProcessController.emitStderr(process.pid, data.subarray(4));
+
+      // Assert
+      const logs = await processManager.getProcessLogs(process.id);
+      expect(logs?.logs.map(entry => entry.line)).toEqual(['ビルド完了']);
+    });
+
+    it('should log a trailing partial line on exit', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['build.js'] });
+      mockProcessController.emitStdout(process.pid, 'done\n\nexit without newline');
+
+      // Act
+      mockProcessController.emitExit(process.pid, 0);
+
+      // Assert
+      const logs = await processManager.getProcessLogs(process.id);
+      expect(logs?.logs.map(entry => entry.line)).toEqual(['done', '', 'exit without newline']);
+    });
+
+    it('should log a partial line after the idle timeout', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const process = await processManager.startProcess({ command: 'npm', args: ['init'] });
+
+      // Act
+      mockProcessController.emitStdout(process.pid, 'package name: ');
+      const beforeTimeout = await processManager.getProcessLogs(process.id);
+      vi.advanceTimersByTime(configProvider.getPartialLineFlushMs());
+      const afterTimeout = await processManager.getProcessLogs(process.id);
+      vi.useRealTimers();
+
+      // Assert
+      expect(beforeTimeout?.logs).toEqual([]);
+      expect(afterTimeout?.logs.map(entry => entry.line)).toEqual(['package name: ']);
+    });
+  });
+
+  describe('waitForLog', () => {
+    it('should match a line already in the buffer', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'npm', args: ['run', 'dev'] });
+      mockProcessController.emitStdout(process.pid, 'Starting...\nCompiled successfully\n');
+
+      // Act
+      const result = await processManager.waitForLog(process.id, { pattern: 'Compiled' });
+
+      // Assert
+      expect(result.state).toBe('matched');
+      expect(result.match?.line).toBe('Compiled successfully');
+      expect(result.context.map(entry => entry.line)).toEqual(['Starting...']);
+      expect(result.nextCursor).toBe(2);
+    });
+
+    it('should resolve when a matching line is logged', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['server.js'] });
+      const waiting = processManager.waitForLog(process.id, { pattern: 'listening on (\\d+)', ignoreCase: true });
+
+      // Act
+      mockProcessController.emitStdout(process.pid, 'Loading config\n');
+      mockProcessController.emitStdout(process.pid, 'Listening on 3000\n');
+      const result = await waiting;
+
+      // Assert
+      expect(result.state).toBe('matched');
+      expect(result.match?.line).toBe('Listening on 3000');
+    });
+
+    it('should only check lines after the cursor', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'tsc', args: ['--watch'] });
+      mockProcessController.emitStdout(process.pid, 'Found 0 errors\n');
+      const waiting = processManager.waitForLog(process.id, { pattern: 'Found \\d+ errors', afterCursor: 1 });
+
+      // Act
+      mockProcessController.emitStdout(process.pid, 'File change detected\nFound 2 errors\n');
+      const result = await waiting;
+
+      // Assert
+      expect(result.match?.seq).toBe(3);
+    });
+
+    it('should resolve when the process exits', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['crash.js'] });
+      const waiting = processManager.waitForLog(process.id, { pattern: 'ready' });
+
+      // Act
+      mockProcessController.emitExit(process.pid, 1);
+      const result = await waiting;
+
+      // Assert
+      expect(result.state).toBe('exited');
+      expect(result.exitCode).toBe(1);
+      expect(result.match).toBeUndefined();
+    });
+
+    it('should time out when nothing matches', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['server.js'] });
+      mockProcessController.emitStdout(process.pid, 'still booting\n');
+
+      // Act
+      const result = await processManager.waitForLog(process.id, { pattern: 'ready', timeoutMs: 10 });
+
+      // Assert
+      expect(result.state).toBe('timed_out');
+      expect(result.nextCursor).toBe(1);
+    });
+
+    it('should reject an invalid pattern', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+
+      // Act & Assert
+      await expect(processManager.waitForLog(process.id, { pattern: '(' })).rejects.toThrow('Invalid pattern');
+    });
+  });
+
+  describe('startDefinition', () => {
+    beforeEach(() => {
+      configProvider = new ConfigProviderImpl({
+        maxLogLinesPerProcesses: 1000,
+        maxConcurrentProcesses: 10,
+        processTerminationTimeoutMs: 5000,
+        processDefinitions: [{
+          name: 'api',
+          command: 'npm',
+          args: ['run', 'dev'],
+          cwd: '/tmp',
+          env: { PORT: '3000' },
+          restartPolicy: { mode: 'on-failure' },
+          source: '/tmp/.manage-bg.yaml',
+        }],
+      });
+      processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
+    });
+
+    it('should start the definition under its name', async () => {
+      // Act
+      const process = await processManager.startDefinition('api');
+
+      // Assert
+      expect(process).toMatchObject({ name: 'api', command: 'npm', args: ['run', 'dev'], cwd: '/tmp' });
+      expect(mockProcessController.getProcess(process.pid)?.config.env).toEqual({ PORT: '3000' });
+    });
+
+    it('should apply overrides and merge environment variables', async () => {
+      // Act
+      const process = await processManager.startDefinition('api', { name: 'api-debug', args: ['run', 'debug'], env: { DEBUG: '1' } });
+
+      // Assert
+      expect(process).toMatchObject({ name: 'api-debug', args: ['run', 'debug'] });
+      expect(mockProcessController.getProcess(process.pid)?.config.env).toEqual({ PORT: '3000', DEBUG: '1' });
+    });
+
+    it('should reject unknown definitions', async () => {
+      // Act & Assert
+      await expect(processManager.startDefinition('web')).rejects.toThrow('Unknown process definition: web (available: api)');
+    });
+  });
+
+  describe('startScript', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await mkdtemp(join(tmpdir(), 'manage-bg-scripts-'));
+      await writeFile(join(projectDir, 'package.json'), JSON.stringify({ name: 'acme', scripts: { dev: 'vite' }, workspaces: ['packages/*'] }));
+      await mkdir(join(projectDir, 'packages/api'), { recursive: true });
+      await writeFile(join(projectDir, 'packages/api/package.json'), JSON.stringify({ name: '@acme/api', scripts: { dev: 'tsx watch src/index.ts' } }));
+      await writeFile(join(projectDir, 'pnpm-lock.yaml'), '');
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should start the script with the package manager of the project', async () => {
+      // Act
+      const process = await processManager.startScript('dev', { cwd: projectDir, args: ['--port', '3000'] });
+
+      // Assert
+      expect(process).toMatchObject({ name: 'dev', command: 'pnpm', args: ['run', 'dev', '--port', '3000'], cwd: projectDir });
+    });
+
+    it('should fall back to a qualified name or no name when the script name is taken', async () => {
+      // Arrange
+      await processManager.startScript('dev', { cwd: projectDir });
+
+      // Act
+      const second = await processManager.startScript('dev', { cwd: projectDir });
+      const third = await processManager.startScript('dev', { cwd: projectDir });
+
+      // Assert
+      expect(second.name).toBe('acme:dev');
+      expect(third.name).toBeUndefined();
+    });
+
+    it('should start the script of a workspace package in its directory', async () => {
+      // Act
+      const process = await processManager.startScript('dev', { cwd: projectDir, package: '@acme/api' });
+
+      // Assert
+      expect(process).toMatchObject({ name: '@acme/api:dev', command: 'pnpm', args: ['run', 'dev'], cwd: join(projectDir, 'packages/api') });
+    });
+
+    it('should reject unknown scripts and packages', async () => {
+      // Act & Assert
+      await expect(processManager.startScript('build', { cwd: projectDir }))
+        .rejects.toThrow(`Unknown script: build in ${projectDir}/package.json (available: dev)`);
+      await expect(processManager.startScript('dev', { cwd: projectDir, package: '@acme/web' }))
+        .rejects.toThrow('Unknown workspace package: @acme/web (available: acme, @acme/api)');
+    });
+  });
+
+  describe('waitForProcesses', () => {
+    it('should wait until all processes exit', async () => {
+      // Arrange
+      const build = await processManager.startProcess({ command: 'npm', args: ['run', 'build'] });
+      const test = await processManager.startProcess({ command: 'npm', args: ['test'] });
+      const waiting = processManager.waitForProcesses([build.id, test.id]);
+
+      // Act
+      mockProcessController.emitStdout(build.pid, 'Build complete\n');
+      mockProcessController.emitExit(build.pid, 0);
+      mockProcessController.emitStderr(test.pid, '1 test failed\n');
+      mockProcessController.emitExit(test.pid, 1);
+      const result = await waiting;
+
+      // Assert
+      expect(result.completed).toBe(true);
+      expect(result.processes.map(status => status.process.exitCode)).toEqual([0, 1]);
+      expect(result.processes.every(status => status.exited)).toBe(true);
+      expect(result.processes[1]?.logTail.map(entry => entry.line)).toEqual(['1 test failed']);
+    });
+
+    it('should return when any process exits', async () => {
+      // Arrange
+      const server = await processManager.startProcess({ command: 'node', args: ['server.js'] });
+      const test = await processManager.startProcess({ command: 'npm', args: ['test'] });
+      const waiting = processManager.waitForProcesses([server.id, test.id], { mode: 'any' });
+
+      // Act
+      mockProcessController.emitExit(test.pid, 0);
+      const result = await waiting;
+
+      // Assert
+      expect(result.completed).toBe(true);
+      expect(result.processes.map(status => status.exited)).toEqual([false, true]);
+    });
+
+    it('should report a timeout as an incomplete result', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['server.js'] });
+
+      // Act
+      const result = await processManager.waitForProcesses([process.id], { timeoutMs: 10 });
+
+      // Assert
+      expect(result.completed).toBe(false);
+      expect(result.processes[0]?.exited).toBe(false);
+      expect(result.processes[0]?.process.status).toBe('running');
+    });
+
+    it('should return immediately for processes that already exited', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'echo', args: ['done'] });
+      mockProcessController.emitStdout(process.pid, 'done\n');
+      mockProcessController.emitExit(process.pid, 0);
+
+      // Act
+      const result = await processManager.waitForProcesses([process.id, process.id], { tailLines: 0 });
+
+      // Assert
+      expect(result.completed).toBe(true);
+      expect(result.processes).toHaveLength(1);
+      expect(result.processes[0]?.logTail).toEqual([]);
+    });
+
+    it('should reject unknown processes', async () => {
+      // Act & Assert
+      await expect(processManager.waitForProcesses(['non-existent'])).rejects.toThrow('Process not found');
+      await expect(processManager.waitForProcesses([])).rejects.toThrow('At least one process ID is required');
+    });
+  });
+
+  describe('runProcess', () => {
+    const waitForSpawn = async () => {
+      await vi.waitFor(async () => {
+        expect(await processManager.listProcesses()).toHaveLength(1);
+      });
+      return mockProcessController.getLastPid();
+    };
+
+    it('should return the exit code and output of the command', async () => {
+      // Arrange
+      const running = processManager.runProcess({ command: 'tsc', args: ['--noEmit'] });
+      const pid = await waitForSpawn();
+
+      // Act
+      mockProcessController.emitStdout(pid, 'src/index.ts(3,7): error TS2322\nFound 1 error.\n');
+      mockProcessController.emitStderr(pid, 'warning\n');
+      mockProcessController.emitExit(pid, 2);
+      const result = await running;
+
+      // Assert
+      expect(result.state).toBe('exited');
+      expect(result.process.exitCode).toBe(2);
+      expect(result.stdout).toEqual({ text: 'src/index.ts(3,7): error TS2322\nFound 1 error.', lines: 2, truncated: false });
+      expect(result.stderr.text).toBe('warning');
+    });
+
+    it('should keep the end of long output', async () => {
+      // Arrange
+      const running = processManager.runProcess({ command: 'npm', args: ['test'], maxOutputChars: 12 });
+      const pid = await waitForSpawn();
+
+      // Act
+      mockProcessController.emitStdout(pid, 'first line\nsecond\nthird\n');
+      mockProcessController.emitExit(pid, 0);
+      const result = await running;
+
+      // Assert
+      expect(result.stdout).toEqual({ text: 'second\nthird', lines: 3, truncated: true });
+    });
+
+    it('should capture output beyond the log buffer', async () => {
+      // Arrange
+      const running = processManager.runProcess({ command: 'seq', args: ['1', '1500'] });
+      const pid = await waitForSpawn();
+
+      // Act
+      mockProcessController.emitStdout(pid, Array.from({ length: 1500 }, (_, index) => `${index + 1}\n`).join(''));
+      mockProcessController.emitExit(pid, 0);
+      const result = await running;
+
+      // Assert
+      expect(result.stdout.lines).toBe(1500);
+      expect(result.stdout.truncated).toBe(false);
+      expect(result.stdout.text.startsWith('1\n2\n')).toBe(true);
+    });
+
+    it('should stop the process when the timeout elapses', async () => {
+      // Arrange
+      const running = processManager.runProcess({ command: 'node', args: ['server.js'], timeoutMs: 200 });
+      const pid = await waitForSpawn();
+      mockProcessController.emitStdout(pid, 'Listening\n');
+
+      // Act
+      const result = await running;
+
+      // Assert
+      expect(result.state).toBe('timed_out');
+      expect(result.stdout.text).toBe('Listening');
+      expect(mockProcessController.getSignals(pid)).toEqual(['SIGTERM']);
+    });
+
+    it('should keep the process running in the background when requested', async () => {
+      // Act
+      const result = await processManager.runProcess({ command: 'node', args: ['server.js'], timeoutMs: 10, backgroundOnTimeout: true });
+
+      // Assert
+      expect(result.state).toBe('backgrounded');
+      expect(result.process.status).toBe('running');
+      expect(mockProcessController.getSignals(result.process.pid)).toEqual([]);
+    });
+  });
+
+  describe('sendInput', () => {
+    it('should write input and record it in the logs', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', args: ['-i'], stdin: 'pipe' });
+
+      // Act
+      await processManager.sendInput(process.id, { text: '1 + 1' });
+      await processManager.sendInput(process.id, { text: 'r', newline: false, close: true });
+
+      // Assert
+      expect(mockProcessController.getStdinWrites(process.pid)).toEqual(['1 + 1\n', 'r']);
+      expect(mockProcessController.isStdinClosed(process.pid)).toBe(true);
+      const logs = await processManager.getProcessLogs(process.id, { stream: 'stdin' });
+      expect(logs?.logs.map(entry => entry.line)).toEqual(['1 + 1', 'r']);
+    });
+
+    it('should reject input when stdin is not piped', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+
+      // Act & Assert
+      await expect(processManager.sendInput(process.id, { text: 'hello' })).rejects.toThrow('stdin is not enabled');
+    });
+
+    it('should reject input for an exited process', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node', stdin: 'pipe' });
+      mockProcessController.emitExit(process.pid, 0);
+
+      // Act & Assert
+      await expect(processManager.sendInput(process.id, { text: 'hello' })).rejects.toThrow('Process is not running');
+    });
+  });
+
+  describe('tty', () => {
+    it('should run under a pseudo-terminal and log output as pty', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'rails', args: ['console'], tty: true, columns: 120 });
+
+      // Act
+      mockProcessController.emitStdout(process.pid, 'irb(main):001> ');
+      await processManager.sendInput(process.id, { text: 'User.count' });
+
+      // Assert
+      expect(process.tty).toEqual({ columns: 120, rows: 24 });
+      expect(mockProcessController.getProcess(process.pid)?.config.tty).toEqual({ columns: 120, rows: 24 });
+      const logs = await processManager.getProcessLogs(process.id);
+      expect(logs?.logs.map(entry => `${entry.type}:${entry.line}`)).toEqual(['pty:irb(main):001> ', 'stdin:User.count']);
+    });
+
+    it('should resize the terminal', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'docker', args: ['compose', 'up'], tty: true });
+
+      // Act
+      const resized = await processManager.resizeTerminal(process.id, { columns: 200, rows: 50 });
+
+      // Assert
+      expect(resized.tty).toEqual({ columns: 200, rows: 50 });
+      expect(mockProcessController.getTerminalSize(process.pid)).toEqual({ columns: 200, rows: 50 });
+    });
+
+    it('should reject resizing a process without a terminal', async () => {
+      // Arrange
+      const process = await processManager.startProcess({ command: 'node' });
+
+      // Act & Assert
+      await expect(processManager.resizeTerminal(process.id, { columns: 100, rows: 30 })).rejects.toThrow('not running under a pseudo-terminal');
+    });
+  });
+
+  describe('concurrent process limit', () => {
+    let limitedManager: BgProcessManager;
+
+    beforeEach(() => {
+      const limitedConfig = new ConfigProviderImpl({
+        maxLogLinesPerProcesses: 1000,
+        maxConcurrentProcesses: 2,
+        processTerminationTimeoutMs: 5000,
+      });
+      limitedManager = new BgProcessManagerImpl(
+        logBuffer,
+        mockProcessController,
+        new ReadinessCheckerImpl(logBuffer),
+        limitedConfig,
+      );
+    });
+
+    it('should reject starts beyond the limit with the running processes', async () => {
+      // Arrange
+      const first = await limitedManager.startProcess({ command: 'sleep', args: ['1'], name: 'first' });
+      await limitedManager.startProcess({ command: 'sleep', args: ['2'] });
+
+      // Act & Assert
+      const promise = limitedManager.startProcess({ command: 'sleep', args: ['3'] });
+      await expect(promise).rejects.toMatchObject({ type: 'RESOURCE_EXHAUSTED' });
+      await expect(promise).rejects.toThrow(`${first.id} [first] (sleep 1)`);
+    });
+
+    it('should free a slot when a process exits', async () => {
+      // Arrange
+      const first = await limitedManager.startProcess({ command: 'sleep', args: ['1'] });
+      await limitedManager.startProcess({ command: 'sleep', args: ['2'] });
+
+      // Act
+      mockProcessController.emitExit(first.pid, 0);
+      const third = await limitedManager.startProcess({ command: 'sleep', args: ['3'] });
+
+      // Assert
+      expect(third.status).toBe('running');
+    });
+
+    it('should wait for a free slot in queue mode', async () => {
+      // Arrange
+      const first = await limitedManager.startProcess({ command: 'sleep', args: ['1'] });
+      await limitedManager.startProcess({ command: 'sleep', args: ['2'] });
+      const queued = limitedManager.startProcess({ command: 'sleep', args: ['3'], queue: true });
+
+      // Act
+      mockProcessController.emitExit(first.pid, 0);
+
+      // Assert
+      const third = await queued;
+      expect(third.status).toBe('running');
+      expect(third.args).toEqual(['3']);
+    });
+
+    it('should time out while waiting in the queue', async () => {
+      // Arrange
+      await limitedManager.startProcess({ command: 'sleep', args: ['1'] });
+      await limitedManager.startProcess({ command: 'sleep', args: ['2'] });
+
+      // Act & Assert
+      await expect(limitedManager.startProcess({
+        command: 'sleep',
+        args: ['3'],
+        queue: true,
+        queueTimeoutMs: 20,
+      })).rejects.toMatchObject({ type: 'TIMEOUT_ERROR' });
+    });
+
+    it('should stop waiting in the queue after the default timeout', async () => {
+      // Arrange
+      await limitedManager.startProcess({ command: 'sleep', args: ['1'] });
+      await limitedManager.startProcess({ command: 'sleep', args: ['2'] });
+      vi.useFakeTimers();
+
+      // Act
+      const queued = limitedManager.startProcess({ command: 'sleep', args: ['3'], queue: true });
+      const rejection = expect(queued).rejects.toMatchObject({ type: 'TIMEOUT_ERROR' });
+      await vi.advanceTimersByTimeAsync(30000);
+
+      // Assert
+      await rejection;
+      vi.useRealTimers();
+    });
+  });
+
   describe('stopAllProcesses', () => {
     it('should stop all running processes', async () => {
       // Arrange
@@ -204,4 +1160,52 @@ describe('BgProcessManager', () => {
       await expect(processManager.stopAllProcesses()).resolves.toBeUndefined();
     });
   });
+
+  describe('descendants outliving the process', () => {
+    let realManager: BgProcessManager;
+
+    beforeEach(() => {
+      realManager = new BgProcessManagerImpl(
+        logBuffer,
+        new ProcessControllerImpl(),
+        new ReadinessCheckerImpl(logBuffer),
+        configProvider,
+      );
+    });
+
+    async function startWithBackgroundChild(): Promise<{ id: string; childPid: number }> {
+      const { id } = await realManager.startProcess({
+        command: 'sh',
+        args: ['-c', 'sleep 30 >/dev/null 2>&1 & echo $!'],
+      });
+      await realManager.waitForProcesses([id], { timeoutMs: 5000 });
+      const childPid = Number(logBuffer.queryLogs(id, {}).logs[0]?.line);
+      return { id, childPid };
+    }
+
+    it('should kill a background child left running by an exited process', async () => {
+      // Arrange
+      const { id, childPid } = await startWithBackgroundChild();
+      expect(isRunning(childPid)).toBe(true);
+
+      // Act
+      const result = await realManager.stopProcess(id, { timeoutMs: 2000 });
+
+      // Assert
+      expect(result.alreadyStopped).toBe(false);
+      expect(isRunning(childPid)).toBe(false);
+    });
+
+    it('should kill background children when stopping all processes', async () => {
+      // Arrange
+      const { childPid } = await startWithBackgroundChild();
+      expect(isRunning(childPid)).toBe(true);
+
+      // Act
+      await realManager.stopAllProcesses();
+
+      // Assert
+      expect(isRunning(childPid)).toBe(false);
+    });
+  });
 });
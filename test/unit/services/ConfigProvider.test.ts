@@ -0,0 +1,207 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadConfig } from '@/services/ConfigProvider.js';
+
+describe('loadConfig', () => {
+  let projectDir: string;
+  let xdgConfigHome: string;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'manage-bg-project-'));
+    xdgConfigHome = await mkdtemp(join(tmpdir(), 'manage-bg-xdg-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+    await rm(xdgConfigHome, { recursive: true, force: true });
+  });
+
+  async function writeUserConfig(name: string, content: string) {
+    await mkdir(join(xdgConfigHome, 'manage-bg'), { recursive: true });
+    await writeFile(join(xdgConfigHome, 'manage-bg', name), content);
+  }
+
+  it('should use the defaults without a config file', async () => {
+    // Act
+    const config = await loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } });
+
+    // Assert
+    expect(config.getMaxConcurrentProcesses()).toBe(20);
+    expect(config.getMaxLogLinesPerProcesses()).toBe(200);
+    expect(config.getProcessTerminationTimeoutMs()).toBe(5000);
+    expect(config.getLogDirectory()).toBeUndefined();
+    expect(config.getAnsiMode()).toBe('strip');
+  });
+
+  it('should load a project-local JSON file', async () => {
+    // Arrange
+    await writeFile(join(projectDir, '.manage-bg.json'), JSON.stringify({ maxConcurrentProcesses: 5, logDirectory: 'logs' }));
+    await writeUserConfig('config.json', JSON.stringify({ maxConcurrentProcesses: 50 }));
+
+    // Act
+    const config = await loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } });
+
+    // Assert
+    expect(config.getMaxConcurrentProcesses()).toBe(5);
+    expect(config.getMaxLogLinesPerProcesses()).toBe(200);
+    expect(config.getLogDirectory()).toBe(join(projectDir, 'logs'));
+  });
+
+  it('should fall back to the user-level YAML file', async () => {
+    // Arrange
+    await writeUserConfig('config.yaml', 'maxLogLinesPerProcesses: 1000\nmultilinePatterns:\n  - "^\\\\s+at "\n');
+
+    // Act
+    const config = await loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } });
+
+    // Assert
+    expect(config.getMaxLogLinesPerProcesses()).toBe(1000);
+    expect(config.getMultilinePatterns()).toEqual(['^\\s+at ']);
+  });
+
+  it('should load an explicit path and let environment variables take precedence', async () => {
+    // Arrange
+    await writeFile(join(projectDir, '.manage-bg.json'), JSON.stringify({ maxConcurrentProcesses: 5 }));
+    await writeFile(join(projectDir, 'custom.yml'), 'maxConcurrentProcesses: 8\nansiMode: keep\nlogDirectory: /var/log/bg\n');
+
+    // Act
+    const config = await loadConfig({
+      configPath: 'custom.yml',
+      cwd: projectDir,
+      env: { XDG_CONFIG_HOME: xdgConfigHome, MANAGE_BG_ANSI_MODE: 'strip', MANAGE_BG_LOG_DIR: '/tmp/bg-logs' },
+    });
+
+    // Assert
+    expect(config.getMaxConcurrentProcesses()).toBe(8);
+    expect(config.getAnsiMode()).toBe('strip');
+    expect(config.getLogDirectory()).toBe('/tmp/bg-logs');
+  });
+
+  it('should reject invalid values with the offending keys', async () => {
+    // Arrange
+    await writeFile(join(projectDir, '.manage-bg.json'), JSON.stringify({ maxConcurrentProcesses: 0, ansiMode: 'colors', maxProcesses: 3 }));
+
+    // Act & Assert
+    const loading = loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } });
+    await expect(loading).rejects.toThrow(/VALIDATION_ERROR: Invalid config file .*\.manage-bg\.json: .*maxConcurrentProcesses: .*ansiMode: .*'maxProcesses'/);
+  });
+
+  it('should reject invalid multiline patterns', async () => {
+    // Arrange
+    await writeFile(join(projectDir, '.manage-bg.yaml'), 'multilinePatterns: ["("]\n');
+
+    // Act & Assert
+    await expect(loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } }))
+      .rejects.toThrow('multilinePatterns.0: Invalid regular expression');
+  });
+
+  it('should reject unreadable and malformed files', async () => {
+    // Arrange
+    await writeFile(join(projectDir, '.manage-bg.json'), '{ "maxConcurrentProcesses": ');
+
+    // Act & Assert
+    await expect(loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } }))
+      .rejects.toThrow('Failed to read config file');
+    await expect(loadConfig({ configPath: 'missing.json', cwd: projectDir, env: {} }))
+      .rejects.toThrow(`Failed to read config file ${join(projectDir, 'missing.json')}`);
+  });
+
+  it('should apply environment variables and flags in order of precedence', async () => {
+    // Arrange
+    await writeFile(join(projectDir, '.manage-bg.json'), JSON.stringify({ maxConcurrentProcesses: 5, maxLogLinesPerProcesses: 300, logLevel: 'error' }));
+
+    // Act
+    const config = await loadConfig({
+      overrides: { maxConcurrentProcesses: '40', logDirectory: 'logs', multilinePatterns: ['^--- ', '^=== '] },
+      cwd: projectDir,
+      env: {
+        XDG_CONFIG_HOME: xdgConfigHome,
+        MANAGE_BG_MAX_PROCESSES: '10',
+        MANAGE_BG_MAX_LOG_LINES: '1000',
+        MANAGE_BG_TERMINATION_TIMEOUT: '',
+        MANAGE_BG_LOG_LEVEL: 'info',
+      },
+    });
+
+    // Assert
+    expect(config.getMaxConcurrentProcesses()).toBe(40);
+    expect(config.getMaxLogLinesPerProcesses()).toBe(1000);
+    expect(config.getProcessTerminationTimeoutMs()).toBe(5000);
+    expect(config.getLogLevel()).toBe('info');
+    expect(config.getLogDirectory()).toBe(join(projectDir, 'logs'));
+    expect(config.getMultilinePatterns()).toEqual(['^--- ', '^=== ']);
+  });
+
+  it('should split newline-separated lists in environment variables', async () => {
+    // Act
+    const config = await loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome, MANAGE_BG_MULTILINE_PATTERNS: '^--- \n^=== \n' } });
+
+    // Assert
+    expect(config.getMultilinePatterns()).toEqual(['^--- ', '^=== ']);
+  });
+
+  it('should name the flag or variable of an invalid value', async () => {
+    // Act & Assert
+    await expect(loadConfig({ overrides: { maxConcurrentProcesses: 'many' }, cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } }))
+      .rejects.toThrow('VALIDATION_ERROR: Invalid configuration value: --max-processes: Expected number');
+    await expect(loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome, MANAGE_BG_LOG_LEVEL: 'verbose' } }))
+      .rejects.toThrow('MANAGE_BG_LOG_LEVEL: Invalid enum value');
+  });
+
+  it('should load process definitions from the Procfile and the config file', async () => {
+    // Arrange
+    await writeFile(join(projectDir, 'Procfile'), 'api: node server.js\nworker: node worker.js\n');
+    await writeFile(join(projectDir, '.manage-bg.yaml'), [
+      'processes:',
+      '  api:',
+      '    command: npm',
+      '    args: [run, dev]',
+      '    cwd: packages/api',
+      '    env: { PORT: "3000" }',
+      '    readiness: { type: port, port: 3000 }',
+      '    restartPolicy: { mode: on-failure }',
+      '',
+    ].join('\n'));
+
+    // Act
+    const config = await loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } });
+
+    // Assert
+    expect(config.getProcessDefinitions()).toEqual([
+      {
+        name: 'api',
+        command: 'npm',
+        args: ['run', 'dev'],
+        cwd: join(projectDir, 'packages/api'),
+        env: { PORT: '3000' },
+        readiness: { type: 'port', port: 3000 },
+        restartPolicy: { mode: 'on-failure' },
+        source: join(projectDir, '.manage-bg.yaml'),
+      },
+      { name: 'worker', command: 'sh', args: ['-c', 'node worker.js'], cwd: projectDir, source: join(projectDir, 'Procfile') },
+    ]);
+  });
+
+  it('should skip invalid Procfile entries instead of failing', async () => {
+    // Arrange
+    await writeFile(join(projectDir, 'Procfile'), 'web:\nworker: node worker.js\n');
+
+    // Act
+    const config = await loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } });
+
+    // Assert
+    expect(config.getProcessDefinitions().map(definition => definition.name)).toEqual(['worker']);
+    expect(config.getProcessDefinitionErrors()).toEqual([`Invalid Procfile entry at ${join(projectDir, 'Procfile')}:1: web:`]);
+  });
+
+  it('should reject invalid process definitions', async () => {
+    // Arrange
+    await writeFile(join(projectDir, '.manage-bg.json'), JSON.stringify({ processes: { api: { args: ['run', 'dev'] } } }));
+
+    // Act & Assert
+    await expect(loadConfig({ cwd: projectDir, env: { XDG_CONFIG_HOME: xdgConfigHome } }))
+      .rejects.toThrow('processes.api.command: Required');
+  });
+});
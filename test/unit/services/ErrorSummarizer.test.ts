@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { type LogEntry } from '@/models/LogData.js';
+import { ErrorSummarizer } from '@/services/ErrorSummarizer.js';
+
+function createEvents(lines: Array<[LogEntry['type'], string]>): LogEntry[] {
+  return lines.map(([type, line], index) => ({
+    seq: index + 1,
+    type,
+    line,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, index)),
+  }));
+}
+
+describe('ErrorSummarizer', () => {
+  const summarizer = new ErrorSummarizer();
+
+  it('should classify common error and warning patterns', () => {
+    // Arrange
+    const events = createEvents([
+      ['stdout', 'src/index.ts(3,7): error TS2322: Type \'string\' is not assignable to type \'number\'.'],
+      ['stdout', 'npm ERR! code ELIFECYCLE'],
+      ['stdout', 'panic: runtime error: index out of range'],
+      ['stdout', 'npm WARN deprecated request@2.88.2'],
+      ['stdout', 'Compiled successfully'],
+      ['stderr', 'Debugger listening on ws://127.0.0.1:9229'],
+    ]);
+
+    // Act
+    const summary = summarizer.summarize(events);
+
+    // Assert
+    expect(summary.totals).toEqual({ error: 3, warning: 1, stderr: 1 });
+    expect(summary.groups.map(group => group.kind)).toEqual(['error', 'error', 'error', 'warning', 'stderr']);
+  });
+
+  it('should deduplicate repeated messages with counts and occurrence range', () => {
+    // Arrange
+    const events = createEvents([
+      ['stderr', 'Error: connect ECONNREFUSED 127.0.0.1:5432'],
+      ['stdout', 'retrying'],
+      ['stderr', 'Error: connect ECONNREFUSED 127.0.0.1:5433'],
+      ['stderr', 'Error: connect ECONNREFUSED 127.0.0.1:5432'],
+    ]);
+
+    // Act
+    const summary = summarizer.summarize(events);
+
+    // Assert
+    expect(summary.groups).toHaveLength(1);
+    expect(summary.groups[0]).toMatchObject({
+      message: 'Error: connect ECONNREFUSED 127.0.0.1:5432',
+      count: 3,
+      firstSeq: 1,
+      lastSeq: 4,
+      firstSeen: new Date(Date.UTC(2024, 0, 1, 0, 0, 0)),
+      lastSeen: new Date(Date.UTC(2024, 0, 1, 0, 0, 3)),
+    });
+  });
+
+  it('should use the exception line of a Python traceback as the message', () => {
+    // Arrange
+    const events = createEvents([
+      ['stderr', 'Traceback (most recent call last):\n  File "app.py", line 3, in <module>\n    main()\nKeyError: \'user\''],
+    ]);
+
+    // Act
+    const summary = summarizer.summarize(events);
+
+    // Assert
+    expect(summary.groups[0]?.message).toBe('KeyError: \'user\'');
+    expect(summary.groups[0]?.stack).toEqual(['  File "app.py", line 3, in <module>', '    main()']);
+  });
+
+  it('should classify JSON log records by level', () => {
+    // Arrange
+    const events = createEvents([
+      ['stdout', '{"level":50,"msg":"db down"}'],
+      ['stdout', '{"level":30,"msg":"error budget ok"}'],
+    ]).map(event => ({
+      ...event,
+      structured: JSON.parse(event.line).level === 50
+        ? { level: 'error' as const, msg: 'db down', fields: {} }
+        : { level: 'info' as const, msg: 'error budget ok', fields: {} },
+    }));
+
+    // Act
+    const summary = summarizer.summarize(events);
+
+    // Assert
+    expect(summary.groups.map(group => group.message)).toEqual(['db down']);
+  });
+
+  it('should keep the most recent groups within the limit', () => {
+    // Arrange
+    const events = createEvents([
+      ['stderr', 'first failure'],
+      ['stderr', 'second failure'],
+      ['stderr', 'third failure'],
+      ['stderr', 'first failure'],
+    ]);
+
+    // Act
+    const summary = summarizer.summarize(events, 2);
+
+    // Assert
+    expect(summary.groups.map(group => group.message)).toEqual(['third failure', 'first failure']);
+    expect(summary.omittedGroups).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { JsonLogParser } from '@/services/JsonLogParser.js';
+
+describe('JsonLogParser', () => {
+  const parser = new JsonLogParser();
+
+  it('should parse pino records with numeric levels', () => {
+    // Act
+    const result = parser.parse('{"level":50,"time":1700000000000,"pid":42,"msg":"request failed","req":{"method":"POST"}}');
+
+    // Assert
+    expect(result).toEqual({
+      level: 'error',
+      msg: 'request failed',
+      time: new Date(1700000000000),
+      fields: { pid: 42, req: { method: 'POST' } },
+    });
+  });
+
+  it('should parse zap records with epoch seconds', () => {
+    // Act
+    const result = parser.parse('{"level":"warn","ts":1700000000.5,"caller":"main.go:12","msg":"slow query"}');
+
+    // Assert
+    expect(result?.level).toBe('warn');
+    expect(result?.time?.getTime()).toBe(1700000000500);
+    expect(result?.fields).toEqual({ caller: 'main.go:12' });
+  });
+
+  it('should parse bunyan records with ISO timestamps', () => {
+    // Act
+    const result = parser.parse('{"name":"api","level":30,"msg":"listening","time":"2024-01-01T12:00:00.000Z","v":0}');
+
+    // Assert
+    expect(result?.level).toBe('info');
+    expect(result?.time?.toISOString()).toBe('2024-01-01T12:00:00.000Z');
+  });
+
+  it('should normalize level names', () => {
+    // Act & Assert
+    expect(parser.parse('{"severity":"WARNING","message":"disk almost full"}')).toEqual({
+      level: 'warn',
+      msg: 'disk almost full',
+      fields: {},
+    });
+    expect(parser.parse('{"level":"custom"}')).toEqual({ fields: { level: 'custom' } });
+    expect(parser.parse('{"level":"constructor"}')).toEqual({ fields: { level: 'constructor' } });
+  });
+
+  it('should ignore lines that are not JSON objects', () => {
+    // Act & Assert
+    expect(parser.parse('Server started on port 3000')).toBeUndefined();
+    expect(parser.parse('{ not json }')).toBeUndefined();
+    expect(parser.parse('[1, 2, 3]')).toBeUndefined();
+  });
+});
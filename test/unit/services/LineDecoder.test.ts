@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LineDecoder } from '@/services/LineDecoder.js';
+
+describe('LineDecoder', () => {
+  let received: string[];
+  let decoder: LineDecoder;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    received = [];
+    decoder = new LineDecoder((data) => {
+      received.push(data);
+    }, 100, 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pass on complete lines and carry the partial line over', () => {
+    // Act
+    decoder.write(Buffer.from('first\nsec'));
+    decoder.write(Buffer.from('ond\nthi'));
+
+    // Assert
+    expect(received).toEqual(['first\n', 'second\n']);
+  });
+
+  it('should keep a carriage return split from its line feed', () => {
+    // Act
+    decoder.write(Buffer.from('line\r'));
+    decoder.write(Buffer.from('\nnext\r\n'));
+
+    // Assert
+    expect(received).toEqual(['line\r\nnext\r\n']);
+  });
+
+  it('should decode UTF-8 sequences split across chunks', () => {
+    // Arrange
+    const data = Buffer.from('✓ 完了\n');
+
+    // Act
+    for (const byte of data) {
+      decoder.write(Buffer.from([byte]));
+    }
+
+    // Assert
+    expect(received).toEqual(['✓ 完了\n']);
+  });
+
+  it('should flush the partial line after the idle timeout', () => {
+    // Arrange
+    decoder.write(Buffer.from('Password: '));
+
+    // Act
+    vi.advanceTimersByTime(99);
+    const beforeTimeout = [...received];
+    vi.advanceTimersByTime(1);
+
+    // Assert
+    expect(beforeTimeout).toEqual([]);
+    expect(received).toEqual(['Password: ']);
+  });
+
+  it('should restart the idle timeout on new data', () => {
+    // Act
+    decoder.write(Buffer.from('Downloading'));
+    vi.advanceTimersByTime(80);
+    decoder.write(Buffer.from('...'));
+    vi.advanceTimersByTime(80);
+
+    // Assert
+    expect(received).toEqual([]);
+  });
+
+  it('should flush the partial line explicitly', () => {
+    // Arrange
+    decoder.write(Buffer.from('no newline'));
+
+    // Act
+    decoder.flush();
+    decoder.flush();
+
+    // Assert
+    expect(received).toEqual(['no newline']);
+  });
+
+  it('should cut off a partial line exceeding the maximum length and discard its rest', () => {
+    // Arrange
+    decoder = new LineDecoder((data) => {
+      received.push(data);
+    }, 100, 10);
+
+    // Act
+    decoder.write(Buffer.from('0123456789abc'));
+    decoder.write(Buffer.from('def'));
+    decoder.write(Buffer.from('ghi\nnext\n'));
+
+    // Assert
+    expect(received).toEqual(['0123456789a\n', 'next\n']);
+  });
+
+  it('should keep the latest carriage-return redraw of a line exceeding the maximum length', () => {
+    // Arrange
+    decoder = new LineDecoder((data) => {
+      received.push(data);
+    }, 100, 10);
+
+    // Act
+    for (let step = 1; step <= 5; step++) {
+      decoder.write(Buffer.from(`\rstep ${step}/5`));
+    }
+    decoder.write(Buffer.from('\rdone\n'));
+
+    // Assert
+    expect(received).toEqual(['\rstep 5/5\rdone\n']);
+  });
+});
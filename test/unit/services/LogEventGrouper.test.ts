@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { type LogEntry } from '@/models/LogData.js';
+import { LogEventGrouper } from '@/services/LogEventGrouper.js';
+
+function createEntries(lines: Array<[LogEntry['type'], string]>): LogEntry[] {
+  return lines.map(([type, line], index) => ({
+    seq: index + 1,
+    type,
+    line,
+    timestamp: new Date(),
+  }));
+}
+
+describe('LogEventGrouper', () => {
+  const grouper = new LogEventGrouper();
+
+  it('should group a Node.js stack trace', () => {
+    // Arrange
+    const entries = createEntries([
+      ['stdout', 'Server started'],
+      ['stderr', 'TypeError: Cannot read properties of undefined'],
+      ['stderr', '    at handler (/app/server.js:10:5)'],
+      ['stderr', '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)'],
+      ['stdout', 'GET /health 200'],
+    ]);
+
+    // Act
+    const events = grouper.group(entries);
+
+    // Assert
+    expect(events.map(event => event.line)).toEqual([
+      'Server started',
+      'TypeError: Cannot read properties of undefined\n    at handler (/app/server.js:10:5)\n    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+      'GET /health 200',
+    ]);
+    expect(events[1]?.seq).toBe(2);
+    expect(events[1]?.endSeq).toBe(4);
+    expect(events[0]?.endSeq).toBeUndefined();
+  });
+
+  it('should group a Python traceback including the exception line', () => {
+    // Arrange
+    const entries = createEntries([
+      ['stderr', 'Traceback (most recent call last):'],
+      ['stderr', '  File "app.py", line 3, in <module>'],
+      ['stderr', '    main()'],
+      ['stderr', 'ValueError: invalid literal'],
+      ['stderr', 'Retrying in 5s'],
+    ]);
+
+    // Act
+    const events = grouper.group(entries);
+
+    // Assert
+    expect(events.map(event => event.line)).toEqual([
+      'Traceback (most recent call last):\n  File "app.py", line 3, in <module>\n    main()\nValueError: invalid literal',
+      'Retrying in 5s',
+    ]);
+  });
+
+  it('should group a Java exception chain', () => {
+    // Arrange
+    const entries = createEntries([
+      ['stderr', 'Exception in thread "main" java.lang.IllegalStateException: boom'],
+      ['stderr', '\tat com.example.App.main(App.java:5)'],
+      ['stderr', 'Caused by: java.io.IOException: disk full'],
+      ['stderr', '\t... 3 more'],
+    ]);
+
+    // Act
+    const events = grouper.group(entries);
+
+    // Assert
+    expect(events).toHaveLength(1);
+    expect(events[0]?.endSeq).toBe(4);
+  });
+
+  it('should not split a trace on interleaved output of another stream', () => {
+    // Arrange
+    const entries = createEntries([
+      ['stderr', 'Error: boom'],
+      ['stdout', 'request received'],
+      ['stderr', '    at main (index.js:1:1)'],
+    ]);
+
+    // Act
+    const events = grouper.group(entries);
+
+    // Assert
+    expect(events.map(event => event.line)).toEqual(['Error: boom\n    at main (index.js:1:1)', 'request received']);
+  });
+
+  it('should apply custom continuation patterns', () => {
+    // Arrange
+    const customGrouper = new LogEventGrouper(['^\\| ']);
+    const entries = createEntries([
+      ['stdout', 'Query plan:'],
+      ['stdout', '| Seq Scan on users'],
+    ]);
+
+    // Act
+    const events = customGrouper.group(entries);
+
+    // Assert
+    expect(events.map(event => event.line)).toEqual(['Query plan:\n| Seq Scan on users']);
+  });
+
+  it('should reject invalid custom patterns', () => {
+    // Act & Assert
+    expect(() => new LogEventGrouper(['('])).toThrow('Invalid multiline pattern');
+  });
+});
@@ -82,6 +82,29 @@ describe('Logging', () => {
       consoleErrorSpy.mockRestore();
     });
 
+    it('should skip messages below the configured log level', () => {
+      const consoleSpy = vi.spyOn(console, 'log');
+      const consoleWarnSpy = vi.spyOn(console, 'warn');
+
+      const configProvider = new ConfigProviderImpl({
+        maxLogLinesPerProcesses: 1000,
+        maxConcurrentProcesses: 10,
+        processTerminationTimeoutMs: 5000,
+        loggingEnabled: true,
+        logLevel: 'warn',
+      });
+      const logging = new LoggingImpl(configProvider);
+      logging.debug('test debug');
+      logging.info('test info');
+      logging.warn('test warn');
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith('[WARN] test warn');
+
+      consoleSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+
     it('should be disabled in test environment by default', () => {
       const originalEnv = process.env.NODE_ENV;
       process.env.NODE_ENV = 'test';
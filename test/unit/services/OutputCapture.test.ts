@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { OutputCapture } from '@/services/OutputCapture.js';
+
+describe('OutputCapture', () => {
+  it('should keep all lines within the limit', () => {
+    // Arrange
+    const capture = new OutputCapture(100);
+
+    // Act
+    capture.add('first');
+    capture.add('second');
+
+    // Assert
+    expect(capture.result()).toEqual({ text: 'first\nsecond', lines: 2, truncated: false });
+  });
+
+  it('should keep the latest lines and count the dropped ones', () => {
+    // Arrange
+    const capture = new OutputCapture(10);
+
+    // Act
+    for (let line = 1; line <= 500; line++) {
+      capture.add(String(line));
+    }
+
+    // Assert
+    expect(capture.result()).toEqual({ text: '499\n500', lines: 500, truncated: true });
+  });
+
+  it('should cut a line longer than the limit', () => {
+    // Arrange
+    const capture = new OutputCapture(5);
+
+    // Act
+    capture.add('a'.repeat(8));
+
+    // Assert
+    expect(capture.result()).toEqual({ text: 'aaaaa', lines: 1, truncated: true });
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectPackageManager, loadProjectScripts, scriptCommand } from '@/services/PackageScripts.js';
+
+describe('PackageScripts', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'manage-bg-scripts-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  async function writePackage(dir: string, manifest: object) {
+    await mkdir(join(projectDir, dir), { recursive: true });
+    await writeFile(join(projectDir, dir, 'package.json'), JSON.stringify(manifest));
+  }
+
+  describe('loadProjectScripts', () => {
+    it('should load the scripts of a pnpm workspace', async () => {
+      // Arrange
+      await writePackage('.', { name: 'acme', scripts: { dev: 'turbo dev', build: 'turbo build' } });
+      await writePackage('packages/api', { name: '@acme/api', scripts: { dev: 'tsx watch src/index.ts' } });
+      await writePackage('packages/legacy', { name: '@acme/legacy', scripts: { start: 'node index.js' } });
+      await mkdir(join(projectDir, 'packages/assets'));
+      await writeFile(join(projectDir, 'pnpm-workspace.yaml'), 'packages:\n  - "packages/*"\n  - "!packages/legacy"\n');
+      await writeFile(join(projectDir, 'pnpm-lock.yaml'), '');
+
+      // Act
+      const project = await loadProjectScripts(projectDir);
+
+      // Assert
+      expect(project).toEqual({
+        packageManager: 'pnpm',
+        lockfile: join(projectDir, 'pnpm-lock.yaml'),
+        packages: [
+          { name: 'acme', dir: projectDir, scripts: { dev: 'turbo dev', build: 'turbo build' } },
+          { name: '@acme/api', dir: join(projectDir, 'packages/api'), scripts: { dev: 'tsx watch src/index.ts' } },
+        ],
+      });
+    });
+
+    it('should expand the workspaces field of package.json', async () => {
+      // Arrange
+      await writePackage('.', { private: true, workspaces: { packages: ['apps/**'] } });
+      await writePackage('apps/web', { name: 'web', scripts: { dev: 'vite' } });
+      await writePackage('apps/tools/cli', { name: 'cli', scripts: { build: 'tsc' } });
+      await writePackage('apps/web/node_modules/vite', { name: 'vite', scripts: { dev: 'vite' } });
+      await writeFile(join(projectDir, 'yarn.lock'), '');
+
+      // Act
+      const project = await loadProjectScripts(projectDir);
+
+      // Assert
+      expect(project.packageManager).toBe('yarn');
+      expect(project.packages).toEqual([
+        { dir: projectDir, scripts: {} },
+        { name: 'cli', dir: join(projectDir, 'apps/tools/cli'), scripts: { build: 'tsc' } },
+        { name: 'web', dir: join(projectDir, 'apps/web'), scripts: { dev: 'vite' } },
+      ]);
+    });
+
+    it('should reject directories without package.json', async () => {
+      // Act & Assert
+      await expect(loadProjectScripts(projectDir)).rejects.toThrow(`VALIDATION_ERROR: No package.json found in ${projectDir}`);
+    });
+  });
+
+  describe('detectPackageManager', () => {
+    it('should use the lockfile of a parent directory', async () => {
+      // Arrange
+      await mkdir(join(projectDir, 'packages/api'), { recursive: true });
+      await writeFile(join(projectDir, 'bun.lock'), '');
+
+      // Act
+      const result = await detectPackageManager(join(projectDir, 'packages/api'), {});
+
+      // Assert
+      expect(result).toEqual({ packageManager: 'bun', lockfile: join(projectDir, 'bun.lock') });
+    });
+
+    it('should fall back to the packageManager field and then to npm', async () => {
+      // Act & Assert
+      expect(await detectPackageManager(projectDir, { packageManager: 'pnpm@9.1.0' })).toEqual({ packageManager: 'pnpm' });
+      expect(await detectPackageManager(projectDir, {})).toEqual({ packageManager: 'npm' });
+    });
+  });
+
+  describe('scriptCommand', () => {
+    it('should pass arguments on to the script', () => {
+      // Act & Assert
+      expect(scriptCommand('npm', 'dev', ['--port', '3000'])).toEqual({ command: 'npm', args: ['run', 'dev', '--', '--port', '3000'] });
+      expect(scriptCommand('npm', 'dev')).toEqual({ command: 'npm', args: ['run', 'dev'] });
+      expect(scriptCommand('pnpm', 'dev', ['--port', '3000'])).toEqual({ command: 'pnpm', args: ['run', 'dev', '--port', '3000'] });
+    });
+  });
+});
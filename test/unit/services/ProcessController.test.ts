@@ -1,6 +1,27 @@
+import { readFileSync } from 'fs';
 import { beforeEach, describe, expect, it } from 'vitest';
 import { ProcessControllerImpl, type ProcessSpawnConfig } from '@/services/ProcessController.js';
 
+/**
+ * Check whether a process is running (zombies count as exited)
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  }
+  catch {
+    return false;
+  }
+
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2, stat.lastIndexOf(')') + 3) !== 'Z';
+  }
+  catch {
+    return true;
+  }
+}
+
 describe('ProcessController', () => {
   let processController: ProcessControllerImpl;
 
@@ -117,6 +138,24 @@ describe('ProcessController', () => {
       expect(typeof result.onExit).toBe('function');
     });
 
+    it('should report the output and exit of a short-lived command', async () => {
+      // Arrange
+      const result = await processController.spawn({ command: 'sh', args: ['-c', 'echo done; exit 3'] });
+      const output: string[] = [];
+      result.onStdout((data) => {
+        output.push(data.toString());
+      });
+
+      // Act
+      const exitCode = await new Promise((resolve) => {
+        result.onExit(resolve);
+      });
+
+      // Assert
+      expect(exitCode).toBe(3);
+      expect(output.join('')).toBe('done\n');
+    });
+
     it('should provide proper error callback mechanism', async () => {
       // Arrange - Use a valid command that we can test error handling with
       const config: ProcessSpawnConfig = {
@@ -167,6 +206,88 @@ describe('ProcessController', () => {
     });
   });
 
+  describe('stdin', () => {
+    it('should write to stdin when spawned with a pipe', async () => {
+      // Arrange
+      const result = await processController.spawn({ command: 'cat', stdin: 'pipe' });
+      const output: string[] = [];
+      result.onStdout((data) => {
+        output.push(data.toString());
+      });
+      const exited = new Promise((resolve) => {
+        result.onExit(resolve);
+      });
+
+      // Act
+      await result.writeStdin('hello\n');
+      result.closeStdin();
+      await exited;
+
+      // Assert
+      expect(output.join('')).toBe('hello\n');
+    });
+
+    it('should reject writes when stdin is not piped', async () => {
+      // Arrange
+      const result = await processController.spawn({ command: 'sleep', args: ['1'] });
+
+      // Act & Assert
+      await expect(result.writeStdin('hello\n')).rejects.toThrow('stdin is not piped');
+      processController.kill(result.pid, 'SIGKILL');
+    });
+  });
+
+  describe('tty', () => {
+    it.skipIf(process.platform !== 'linux')('should run the command under a pseudo-terminal of the given size', async () => {
+      // Arrange
+      const result = await processController.spawn({
+        command: 'sh',
+        args: ['-c', 'test -t 1 && echo "is a tty"; stty size'],
+        tty: { columns: 100, rows: 20 },
+      });
+      const output: string[] = [];
+      result.onStdout((data) => {
+        output.push(data.toString());
+      });
+
+      // Act
+      await new Promise((resolve) => {
+        result.onExit(resolve);
+      });
+
+      // Assert
+      expect(output.join('')).toBe('is a tty\r\n20 100\r\n');
+    });
+
+    it.skipIf(process.platform !== 'linux')('should resize the terminal', async () => {
+      // Arrange
+      const result = await processController.spawn({
+        command: 'sh',
+        args: ['-c', 'trap "stty size" WINCH; echo ready; while true; do sleep 0.05; done'],
+        tty: { columns: 80, rows: 24 },
+      });
+      const output: string[] = [];
+      const ready = new Promise((resolve) => {
+        result.onStdout((data) => {
+          output.push(data.toString());
+          if (output.join('').includes('ready')) {
+            resolve(undefined);
+          }
+        });
+      });
+      await ready;
+
+      // Act
+      await processController.resize(result.pid, { columns: 50, rows: 10 });
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      // Assert
+      expect(output.join('')).toContain('10 50');
+      processController.kill(result.pid, 'SIGKILL');
+      await processController.waitForExit(result.pid, 1000);
+    });
+  });
+
   describe('kill', () => {
     it('should kill a running process with SIGTERM', async () => {
       // Arrange
@@ -177,7 +298,7 @@ describe('ProcessController', () => {
       const result = await processController.spawn(config);
 
       // Act
-      const killed = processController.kill(result.pid, false);
+      const killed = processController.kill(result.pid, 'SIGTERM');
 
       // Assert
       expect(killed).toBe(true);
@@ -192,7 +313,7 @@ describe('ProcessController', () => {
       const result = await processController.spawn(config);
 
       // Act
-      const killed = processController.kill(result.pid, true);
+      const killed = processController.kill(result.pid, 'SIGKILL');
 
       // Assert
       expect(killed).toBe(true);
@@ -240,7 +361,7 @@ describe('ProcessController', () => {
       const result = await processController.spawn(config);
 
       // Act & Assert
-      await expect(processController.waitForExit(result.pid, 1000)).resolves.toBeUndefined();
+      await expect(processController.waitForExit(result.pid, 1000)).resolves.toBe(true);
     });
 
     it('should timeout when process does not exit within time limit', async () => {
@@ -252,10 +373,10 @@ describe('ProcessController', () => {
       const result = await processController.spawn(config);
 
       // Act - Wait only 100ms for a 5-second process
-      await expect(processController.waitForExit(result.pid, 100)).resolves.toBeUndefined();
+      await expect(processController.waitForExit(result.pid, 100)).resolves.toBe(false);
 
       // Cleanup
-      processController.kill(result.pid, true);
+      processController.kill(result.pid, 'SIGKILL');
     });
 
     it('should handle already exited process', async () => {
@@ -272,7 +393,7 @@ describe('ProcessController', () => {
       });
 
       // Act & Assert - Should resolve immediately for already exited process
-      await expect(processController.waitForExit(result.pid, 1000)).resolves.toBeUndefined();
+      await expect(processController.waitForExit(result.pid, 1000)).resolves.toBe(true);
     });
 
     it('should handle non-existent process', async () => {
@@ -280,7 +401,7 @@ describe('ProcessController', () => {
       const nonExistentPid = 999999;
 
       // Act & Assert - Should resolve immediately for non-existent process
-      await expect(processController.waitForExit(nonExistentPid, 1000)).resolves.toBeUndefined();
+      await expect(processController.waitForExit(nonExistentPid, 1000)).resolves.toBe(true);
     });
 
     it('should handle waitForExit with default timeout', async () => {
@@ -297,7 +418,52 @@ describe('ProcessController', () => {
       });
 
       // Act & Assert - Process should already be finished, so waitForExit should resolve quickly
-      await expect(processController.waitForExit(result.pid, 100)).resolves.toBeUndefined();
+      await expect(processController.waitForExit(result.pid, 100)).resolves.toBe(true);
+    });
+  });
+
+  describe('process tree', () => {
+    it('should terminate descendants together with the process', async () => {
+      // Arrange - the shell starts a grandchild and reports its PID
+      const result = await processController.spawn({
+        command: 'sh',
+        args: ['-c', 'sleep 30 & echo $!; wait'],
+      });
+      const grandchildPid = await new Promise<number>((resolve) => {
+        result.onStdout((data) => {
+          resolve(Number(data.toString().trim()));
+        });
+      });
+      expect(isRunning(grandchildPid)).toBe(true);
+
+      // Act
+      const killed = processController.kill(result.pid);
+      await processController.waitForExit(result.pid, 2000);
+
+      // Assert
+      expect(killed).toBe(true);
+      expect(isRunning(grandchildPid)).toBe(false);
+      expect(processController.isAlive(result.pid)).toBe(false);
+    });
+
+    it('should report the tree alive until survivors are force killed', async () => {
+      // Arrange - SIGTERM is ignored by the shell and inherited by its child
+      const result = await processController.spawn({
+        command: 'sh',
+        args: ['-c', 'trap "" TERM; sleep 30'],
+      });
+
+      // Act
+      processController.kill(result.pid);
+      await processController.waitForExit(result.pid, 200);
+      const aliveAfterTerm = processController.isAlive(result.pid);
+
+      processController.kill(result.pid, 'SIGKILL');
+      await processController.waitForExit(result.pid, 2000);
+
+      // Assert
+      expect(aliveAfterTerm).toBe(true);
+      expect(processController.isAlive(result.pid)).toBe(false);
     });
   });
 
@@ -316,7 +482,7 @@ describe('ProcessController', () => {
 
       // Kill all processes
       processes.forEach((process) => {
-        const killed = processController.kill(process.pid, true);
+        const killed = processController.kill(process.pid, 'SIGKILL');
         expect(killed).toBe(true); // Should successfully kill running processes
       });
 
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseProcfile, toProcessDefinitions } from '@/services/ProcessDefinitions.js';
+
+describe('ProcessDefinitions', () => {
+  describe('parseProcfile', () => {
+    it('should run each entry through the shell in the Procfile directory', () => {
+      // Act
+      const { definitions, errors } = parseProcfile('# Development processes\nweb: npm run dev -- --port $PORT\n\nworker:node worker.js  \n', '/repo/Procfile');
+
+      // Assert
+      expect(errors).toEqual([]);
+      expect(definitions).toEqual([
+        { name: 'web', command: 'sh', args: ['-c', 'npm run dev -- --port $PORT'], cwd: '/repo', source: '/repo/Procfile' },
+        { name: 'worker', command: 'sh', args: ['-c', 'node worker.js'], cwd: '/repo', source: '/repo/Procfile' },
+      ]);
+    });
+
+    it('should skip invalid lines and report them', () => {
+      // Act
+      const { definitions, errors } = parseProcfile('web: npm start\nnpm run worker\nworker:\n', '/repo/Procfile');
+
+      // Assert
+      expect(definitions.map(definition => definition.name)).toEqual(['web']);
+      expect(errors).toEqual([
+        'Invalid Procfile entry at /repo/Procfile:2: npm run worker',
+        'Invalid Procfile entry at /repo/Procfile:3: worker:',
+      ]);
+    });
+  });
+
+  describe('toProcessDefinitions', () => {
+    it('should name definitions by their keys and resolve working directories', () => {
+      // Act
+      const definitions = toProcessDefinitions({
+        api: { command: 'npm', args: ['run', 'dev'], cwd: 'packages/api', readiness: { type: 'port', port: 3000 } },
+        docs: { command: 'mkdocs', args: ['serve'] },
+      }, '/repo', '/repo/.manage-bg.yaml');
+
+      // Assert
+      expect(definitions).toEqual([
+        { name: 'api', command: 'npm', args: ['run', 'dev'], cwd: '/repo/packages/api', readiness: { type: 'port', port: 3000 }, source: '/repo/.manage-bg.yaml' },
+        { name: 'docs', command: 'mkdocs', args: ['serve'], cwd: '/repo', source: '/repo/.manage-bg.yaml' },
+      ]);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { beforeEach, describe, expect, it } from 'vitest';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
 import { ProcessLogBufferImpl, type ProcessLogBuffer } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
 
 describe('LogBuffer', () => {
   let logBuffer: ProcessLogBuffer;
@@ -12,7 +14,7 @@ describe('LogBuffer', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    logBuffer = new ProcessLogBufferImpl(configProvider);
+    logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
   });
 
   describe('appendStdout', () => {
@@ -25,7 +27,7 @@ describe('LogBuffer', () => {
       logBuffer.appendStdout(processId, data);
 
       // Assert
-      const logs = logBuffer.getLatestLogs(processId);
+      const logs = logBuffer.queryLogs(processId, {});
       const stdoutLines = logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
       const stderrLines = logs.logs.filter(entry => entry.type === 'stderr').map(entry => entry.line);
       expect(stdoutLines).toEqual([data]);
@@ -42,7 +44,7 @@ describe('LogBuffer', () => {
       logBuffer.appendStdout(processId, 'Line 3');
 
       // Assert
-      const logs = logBuffer.getLatestLogs(processId);
+      const logs = logBuffer.queryLogs(processId, {});
       const stdoutLines = logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
       expect(stdoutLines).toEqual(['Line 1', 'Line 2', 'Line 3']);
     });
@@ -58,7 +60,7 @@ describe('LogBuffer', () => {
       logBuffer.appendStderr(processId, data);
 
       // Assert
-      const logs = logBuffer.getLatestLogs(processId);
+      const logs = logBuffer.queryLogs(processId, {});
       const stdoutLines = logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
       const stderrLines = logs.logs.filter(entry => entry.type === 'stderr').map(entry => entry.line);
       expect(stdoutLines).toEqual([]);
@@ -74,16 +76,16 @@ describe('LogBuffer', () => {
       logBuffer.appendStderr(processId, 'Error 2');
 
       // Assert
-      const logs = logBuffer.getLatestLogs(processId);
+      const logs = logBuffer.queryLogs(processId, {});
       const stderrLines = logs.logs.filter(entry => entry.type === 'stderr').map(entry => entry.line);
       expect(stderrLines).toEqual(['Error 1', 'Error 2']);
     });
   });
 
-  describe('getLatestLogs', () => {
+  describe('latest logs', () => {
     it('should return empty logs for non-existent process', () => {
       // Act
-      const logs = logBuffer.getLatestLogs('non-existent');
+      const logs = logBuffer.queryLogs('non-existent', {});
 
       // Assert
       const stdoutLines = logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
@@ -103,7 +105,7 @@ describe('LogBuffer', () => {
       }
 
       // Act
-      const logs = logBuffer.getLatestLogs(processId, 10);
+      const logs = logBuffer.queryLogs(processId, { lines: 10 });
 
       // Assert
       const stdoutLines = logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
@@ -122,7 +124,7 @@ describe('LogBuffer', () => {
       logBuffer.appendStdout(processId, 'Output 2');
 
       // Assert
-      const logs = logBuffer.getLatestLogs(processId);
+      const logs = logBuffer.queryLogs(processId, {});
       const stdoutLines = logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
       const stderrLines = logs.logs.filter(entry => entry.type === 'stderr').map(entry => entry.line);
       expect(stdoutLines).toEqual(['Output 1', 'Output 2']);
@@ -130,47 +132,344 @@ describe('LogBuffer', () => {
     });
   });
 
-  describe('clearLogs', () => {
-    it('should clear logs for specified process', () => {
-      // Arrange
-      const processId = 'test-process-1';
-      logBuffer.appendStdout(processId, 'Some data');
-      logBuffer.appendStderr(processId, 'Some error');
+  describe('queryLogs', () => {
+    const processId = 'test-process-1';
+
+    beforeEach(() => {
+      logBuffer.appendStdout(processId, 'GET /users\nGET /orders\n');
+      logBuffer.appendStderr(processId, 'Error: connection refused\n    at connect\n');
+      logBuffer.appendStdout(processId, 'GET /health\n');
+    });
 
+    it('should filter by grep pattern', () => {
       // Act
-      logBuffer.clearLogs(processId);
+      const logs = logBuffer.queryLogs(processId, { grep: '^GET /(users|health)' });
 
       // Assert
-      const logs = logBuffer.getLatestLogs(processId);
-      const stdoutLines = logs.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
-      const stderrLines = logs.logs.filter(entry => entry.type === 'stderr').map(entry => entry.line);
-      expect(stdoutLines).toEqual([]);
-      expect(stderrLines).toEqual([]);
+      expect(logs.logs.map(entry => entry.line)).toEqual(['GET /users', 'GET /health']);
+    });
+
+    it('should support inverted and case-insensitive matching', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { grep: 'get', ignoreCase: true, invert: true });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['Error: connection refused', '    at connect']);
+    });
+
+    it('should include context entries around matches', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { grep: 'Error', before: 1, after: 1 });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['GET /orders', 'Error: connection refused', '    at connect']);
     });
 
-    it('should not affect other processes when clearing one', () => {
+    it('should filter by stream', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { stream: 'stderr' });
+
+      // Assert
+      expect(logs.logs.every(entry => entry.type === 'stderr')).toBe(true);
+      expect(logs.logs).toHaveLength(2);
+    });
+
+    it('should filter by time window', () => {
       // Arrange
-      logBuffer.appendStdout('process-1', 'Data 1');
-      logBuffer.appendStdout('process-2', 'Data 2');
+      const future = new Date(Date.now() + 60000);
 
       // Act
-      logBuffer.clearLogs('process-1');
+      const sinceFuture = logBuffer.queryLogs(processId, { since: future });
+      const untilFuture = logBuffer.queryLogs(processId, { until: future });
 
       // Assert
-      const logs1 = logBuffer.getLatestLogs('process-1');
-      const logs2 = logBuffer.getLatestLogs('process-2');
+      expect(sinceFuture.logs).toHaveLength(0);
+      expect(untilFuture.logs).toHaveLength(5);
+    });
 
-      const stdout1Lines = logs1.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
-      const stdout2Lines = logs2.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
-      expect(stdout1Lines).toEqual([]);
-      expect(stdout2Lines).toEqual(['Data 2']);
+    it('should apply the line limit after filtering', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { grep: '^GET', lines: 1 });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['GET /health']);
     });
 
-    it('should handle clearing non-existent process gracefully', () => {
+    it('should reject an invalid grep pattern', () => {
       // Act & Assert
-      expect(() => {
-        logBuffer.clearLogs('non-existent');
-      }).not.toThrow();
+      expect(() => logBuffer.queryLogs(processId, { grep: '(' })).toThrow('Invalid grep pattern');
+    });
+  });
+
+  describe('grouped events', () => {
+    const processId = 'test-process-1';
+
+    beforeEach(() => {
+      logBuffer.appendStderr(processId, 'Error: first\n    at a (a.js:1:1)\n');
+      logBuffer.appendStdout(processId, 'recovered\n');
+      logBuffer.appendStderr(processId, 'Error: second\n    at b (b.js:1:1)\n    at c (c.js:1:1)\n');
+    });
+
+    it('should count events instead of lines', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { group: true, lines: 1 });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['Error: second\n    at b (b.js:1:1)\n    at c (c.js:1:1)']);
+      expect(logs.logs[0]?.endSeq).toBe(6);
+    });
+
+    it('should return the last matching event whole', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { group: true, grep: '^Error:', lines: 1 });
+
+      // Assert
+      expect(logs.logs).toHaveLength(1);
+      expect(logs.logs[0]?.line.split('\n')).toHaveLength(3);
+    });
+
+    it('should match grep anywhere in an event', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { group: true, grep: 'a\\.js' });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.seq)).toEqual([1]);
+    });
+  });
+
+  describe('JSON logs', () => {
+    const processId = 'test-process-1';
+
+    beforeEach(() => {
+      logBuffer.appendStdout(processId, [
+        '{"level":30,"msg":"listening","port":3000}',
+        '{"level":40,"msg":"slow request","req":{"method":"GET"}}',
+        'plain text line',
+        '{"level":50,"msg":"request failed","req":{"method":"POST"},"status":500}',
+        '',
+      ].join('\n'));
+    });
+
+    it('should store parsed records alongside the line', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, {});
+
+      // Assert
+      expect(logs.logs[0]?.structured).toEqual({ level: 'info', msg: 'listening', fields: { port: 3000 } });
+      expect(logs.logs[2]?.structured).toBeUndefined();
+    });
+
+    it('should filter by minimum level', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { level: 'warn' });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.structured?.msg)).toEqual(['slow request', 'request failed']);
+    });
+
+    it('should filter by nested field equality', () => {
+      // Act
+      const logs = logBuffer.queryLogs(processId, { fields: { 'req.method': 'POST', 'status': '500' } });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.structured?.msg)).toEqual(['request failed']);
+    });
+
+    it('should not parse JSON when disabled for the process', () => {
+      // Arrange
+      logBuffer.configureProcess('process-2', { parseJson: false });
+
+      // Act
+      logBuffer.appendStdout('process-2', '{"level":50,"msg":"boom"}\n');
+
+      // Assert
+      expect(logBuffer.queryLogs('process-2', {}).logs[0]?.structured).toBeUndefined();
+      expect(logBuffer.queryLogs('process-2', { level: 'error' }).logs).toEqual([]);
+    });
+  });
+
+  describe('cursors', () => {
+    it('should assign increasing sequence numbers', () => {
+      // Act
+      logBuffer.appendStdout('process-1', 'a\nb\n');
+      logBuffer.appendStderr('process-1', 'c\n');
+
+      // Assert
+      const logs = logBuffer.queryLogs('process-1', {});
+      expect(logs.logs.map(entry => entry.seq)).toEqual([1, 2, 3]);
+      expect(logs.nextCursor).toBe(3);
+    });
+
+    it('should return only entries after the cursor', () => {
+      // Arrange
+      logBuffer.appendStdout('process-1', 'a\nb\n');
+      const { nextCursor } = logBuffer.queryLogs('process-1', {});
+      logBuffer.appendStdout('process-1', 'c\n');
+
+      // Act
+      const logs = logBuffer.queryLogs('process-1', { afterCursor: nextCursor });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['c']);
+      expect(logs.nextCursor).toBe(3);
+      expect(logs.evictedLines).toBe(0);
+    });
+
+    it('should report entries after the cursor left out by the line limit', () => {
+      // Arrange
+      logBuffer.appendStdout('process-1', 'a\n');
+      const { nextCursor } = logBuffer.queryLogs('process-1', {});
+      logBuffer.appendStdout('process-1', 'b\nc\nd\ne\n');
+
+      // Act
+      const logs = logBuffer.queryLogs('process-1', { afterCursor: nextCursor, lines: 2 });
+      const skipped = logs.logs[0] ? logBuffer.queryLogs('process-1', { afterCursor: nextCursor, beforeCursor: logs.logs[0].seq }) : undefined;
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['d', 'e']);
+      expect(logs.nextCursor).toBe(5);
+      expect(logs.skippedLines).toBe(2);
+      expect(skipped?.logs.map(entry => entry.line)).toEqual(['b', 'c']);
+    });
+
+    it('should report entries evicted since the cursor', () => {
+      // Arrange
+      const smallConfig = new ConfigProviderImpl({
+        maxLogLinesPerProcesses: 3,
+        maxConcurrentProcesses: 10,
+        processTerminationTimeoutMs: 5000,
+      });
+      const smallBuffer = new ProcessLogBufferImpl(smallConfig, new ProcessLogStoreImpl(smallConfig, new NoOpLogging()));
+      smallBuffer.appendStdout('process-1', 'a\n');
+
+      // Act
+      smallBuffer.appendStdout('process-1', 'b\nc\nd\ne\n');
+      const logs = smallBuffer.queryLogs('process-1', { afterCursor: 1 });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['c', 'd', 'e']);
+      expect(logs.evictedLines).toBe(1);
+    });
+  });
+
+  describe('blank lines', () => {
+    it('should keep blank lines', () => {
+      // Act
+      logBuffer.appendStdout('process-1', 'Compiled\n\n  3 warnings\r\n\n');
+
+      // Assert
+      const logs = logBuffer.queryLogs('process-1', {});
+      expect(logs.logs.map(entry => entry.line)).toEqual(['Compiled', '', '  3 warnings', '']);
+    });
+  });
+
+  describe('ANSI handling', () => {
+    it('should strip escape sequences and keep the raw line', () => {
+      // Act
+      logBuffer.appendStdout('process-1', '\u001b[32m✓ passed\u001b[0m\nplain\n');
+
+      // Assert
+      const logs = logBuffer.queryLogs('process-1', {});
+      expect(logs.logs.map(entry => entry.line)).toEqual(['✓ passed', 'plain']);
+      expect(logs.logs[0]?.raw).toBe('\u001b[32m✓ passed\u001b[0m');
+      expect(logs.logs[1]?.raw).toBeUndefined();
+    });
+
+    it('should collapse carriage-return redraws into the final state', () => {
+      // Act
+      logBuffer.appendStdout('process-1', 'Downloading 5%\rDownloading 100%\nBuilding...\r\u001b[2Kdone\n');
+
+      // Assert
+      const logs = logBuffer.queryLogs('process-1', {});
+      expect(logs.logs.map(entry => entry.line)).toEqual(['Downloading 100%', 'done']);
+    });
+
+    it('should return and search the raw lines when requested', () => {
+      // Arrange
+      logBuffer.appendStderr('process-1', '\u001b[31merror\u001b[0m\n');
+
+      // Act
+      const logs = logBuffer.queryLogs('process-1', { raw: true, grep: '\\[31m' });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['\u001b[31merror\u001b[0m']);
+    });
+
+    it('should keep escape sequences when configured', () => {
+      // Arrange
+      const keepConfig = new ConfigProviderImpl({
+        maxLogLinesPerProcesses: 1000,
+        maxConcurrentProcesses: 10,
+        processTerminationTimeoutMs: 5000,
+        ansiMode: 'keep',
+      });
+      const keepBuffer = new ProcessLogBufferImpl(keepConfig, new ProcessLogStoreImpl(keepConfig, new NoOpLogging()));
+
+      // Act
+      keepBuffer.appendStdout('process-1', '\u001b[1mbold\u001b[0m\n');
+
+      // Assert
+      expect(keepBuffer.queryLogs('process-1', {}).logs[0]?.line).toBe('\u001b[1mbold\u001b[0m');
+    });
+  });
+
+  describe('appendStdin', () => {
+    it('should record input as stdin entries including empty lines', () => {
+      // Act
+      logBuffer.appendStdout('process-1', '> ');
+      logBuffer.appendStdin('process-1', '1 + 1\n\n');
+
+      // Assert
+      const logs = logBuffer.queryLogs('process-1', {});
+      expect(logs.logs.map(entry => `${entry.type}:${entry.line}`)).toEqual(['stdout:> ', 'stdin:1 + 1', 'stdin:']);
+    });
+
+    it('should exclude input from the both stream', () => {
+      // Arrange
+      logBuffer.appendStdin('process-1', 'q\n');
+      logBuffer.appendStderr('process-1', 'bye\n');
+
+      // Act
+      const both = logBuffer.queryLogs('process-1', { stream: 'both' });
+      const stdin = logBuffer.queryLogs('process-1', { stream: 'stdin' });
+
+      // Assert
+      expect(both.logs.map(entry => entry.line)).toEqual(['bye']);
+      expect(stdin.logs.map(entry => entry.line)).toEqual(['q']);
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should notify listeners of new entries', () => {
+      // Arrange
+      const received: string[] = [];
+      logBuffer.subscribe('process-1', (entry) => {
+        received.push(`${entry.type}:${entry.line}`);
+      });
+
+      // Act
+      logBuffer.appendStdout('process-1', 'Line 1\nLine 2');
+      logBuffer.appendStderr('process-1', 'Error 1');
+      logBuffer.appendStdout('process-2', 'Other');
+
+      // Assert
+      expect(received).toEqual(['stdout:Line 1', 'stdout:Line 2', 'stderr:Error 1']);
+    });
+
+    it('should stop notifying after unsubscribe', () => {
+      // Arrange
+      const received: string[] = [];
+      const unsubscribe = logBuffer.subscribe('process-1', (entry) => {
+        received.push(entry.line);
+      });
+
+      // Act
+      logBuffer.appendStdout('process-1', 'Before');
+      unsubscribe();
+      logBuffer.appendStdout('process-1', 'After');
+
+      // Assert
+      expect(received).toEqual(['Before']);
     });
   });
 
@@ -185,7 +484,7 @@ describe('LogBuffer', () => {
       }
 
       // Act
-      const logs = logBuffer.getLatestLogs(processId);
+      const logs = logBuffer.queryLogs(processId, {});
 
       // Assert - Should respect maxLogLinesPerProcesses limit (1000)
       expect(logs.logs.length).toBeLessThanOrEqual(1000);
@@ -204,8 +503,8 @@ describe('LogBuffer', () => {
       logBuffer.appendStdout('process-1', 'P1 Line 2');
 
       // Assert
-      const logs1 = logBuffer.getLatestLogs('process-1');
-      const logs2 = logBuffer.getLatestLogs('process-2');
+      const logs1 = logBuffer.queryLogs('process-1', {});
+      const logs2 = logBuffer.queryLogs('process-2', {});
 
       const stdout1Lines = logs1.logs.filter(entry => entry.type === 'stdout').map(entry => entry.line);
       const stderr1Lines = logs1.logs.filter(entry => entry.type === 'stderr').map(entry => entry.line);
@@ -217,4 +516,72 @@ describe('LogBuffer', () => {
       expect(stderr2Lines).toEqual([]);
     });
   });
+
+  describe('byte limits', () => {
+    function createLimitedBuffer(limits: { maxLogBytesPerProcess?: number; maxTotalLogBytes?: number; maxLogLineLength?: number }) {
+      const limitedConfig = new ConfigProviderImpl({
+        maxLogLinesPerProcesses: 1000,
+        maxConcurrentProcesses: 10,
+        processTerminationTimeoutMs: 5000,
+        ...limits,
+      });
+      return new ProcessLogBufferImpl(limitedConfig, new ProcessLogStoreImpl(limitedConfig, new NoOpLogging()));
+    }
+
+    it('should truncate lines longer than the maximum line length', () => {
+      // Arrange
+      const limitedBuffer = createLimitedBuffer({ maxLogLineLength: 10 });
+
+      // Act
+      limitedBuffer.appendStdout('process-1', `${'x'.repeat(5000)}\nshort\n`);
+
+      // Assert
+      const logs = limitedBuffer.queryLogs('process-1', {});
+      expect(logs.logs.map(entry => entry.line)).toEqual(['x'.repeat(10), 'short']);
+      expect(logs.logs.map(entry => entry.truncated)).toEqual([true, undefined]);
+    });
+
+    it('should evict the oldest lines beyond the per-process byte budget', () => {
+      // Arrange
+      const limitedBuffer = createLimitedBuffer({ maxLogBytesPerProcess: 30 });
+
+      // Act
+      for (let i = 1; i <= 5; i++) {
+        limitedBuffer.appendStdout('process-1', `line ${i} ${'.'.repeat(3)}\n`);
+      }
+
+      // Assert
+      const logs = limitedBuffer.queryLogs('process-1', {});
+      expect(logs.logs.map(entry => entry.line)).toEqual(['line 3 ...', 'line 4 ...', 'line 5 ...']);
+    });
+
+    it('should keep the latest line even if it exceeds the byte budget', () => {
+      // Arrange
+      const limitedBuffer = createLimitedBuffer({ maxLogBytesPerProcess: 4 });
+
+      // Act
+      limitedBuffer.appendStdout('process-1', 'first\nsecond\n');
+
+      // Assert
+      expect(limitedBuffer.queryLogs('process-1', {}).logs.map(entry => entry.line)).toEqual(['second']);
+    });
+
+    it('should evict from the process using the most memory when the total budget is exceeded', () => {
+      // Arrange
+      const limitedBuffer = createLimitedBuffer({ maxTotalLogBytes: 100 });
+      limitedBuffer.appendStdout('quiet', 'started\n');
+
+      // Act
+      for (let i = 1; i <= 20; i++) {
+        limitedBuffer.appendStdout('noisy', `chunk ${String(i).padStart(2, '0')}\n`);
+      }
+
+      // Assert
+      const quiet = limitedBuffer.queryLogs('quiet', {});
+      const noisy = limitedBuffer.queryLogs('noisy', {});
+      expect(quiet.logs.map(entry => entry.line)).toEqual(['started']);
+      expect(noisy.logs.at(-1)?.line).toBe('chunk 20');
+      expect(noisy.logs.reduce((sum, entry) => sum + entry.line.length, 0)).toBeLessThanOrEqual(100 - 'started'.length);
+    });
+  });
 });
@@ -0,0 +1,179 @@
+import { mkdtemp, readdir, readFile, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type LogEntry } from '@/models/LogData.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+
+function createEntries(from: number, count: number): LogEntry[] {
+  return Array.from({ length: count }, (_value, index) => ({
+    seq: from + index,
+    type: 'stdout' as const,
+    line: `line ${from + index}`,
+    timestamp: new Date(),
+  }));
+}
+
+describe('ProcessLogStore', () => {
+  let logDirectory: string;
+
+  beforeEach(async () => {
+    logDirectory = await mkdtemp(join(tmpdir(), 'process-logs-'));
+  });
+
+  afterEach(async () => {
+    await rm(logDirectory, { recursive: true, force: true });
+  });
+
+  function createConfig(overrides: { logDirectory?: string; logFileMaxBytes?: number; logFileMaxFiles?: number; logDirectoryMaxBytes?: number } = {}) {
+    return new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 3,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+      logDirectory,
+      ...overrides,
+    });
+  }
+
+  it('should be disabled without a log directory', () => {
+    // Arrange
+    const store = new ProcessLogStoreImpl(createConfig({ logDirectory: undefined }), new NoOpLogging());
+
+    // Act
+    store.append('process-1', createEntries(1, 2));
+
+    // Assert
+    expect(store.isEnabled()).toBe(false);
+    expect(store.readHistory('process-1', Infinity)).toEqual([]);
+  });
+
+  it('should persist entries as JSONL and read them back', () => {
+    // Arrange
+    const store = new ProcessLogStoreImpl(createConfig(), new NoOpLogging());
+
+    // Act
+    store.append('process-1', createEntries(1, 3));
+
+    // Assert
+    const history = store.readHistory('process-1', 3);
+    expect(history.map(entry => entry.line)).toEqual(['line 1', 'line 2']);
+    expect(history[0]?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should rotate files by size and drop files beyond the retention limit', async () => {
+    // Arrange
+    const store = new ProcessLogStoreImpl(createConfig({ logFileMaxBytes: 200, logFileMaxFiles: 2 }), new NoOpLogging());
+
+    // Act
+    for (let seq = 1; seq <= 20; seq++) {
+      store.append('process-1', createEntries(seq, 1));
+    }
+
+    // Assert
+    const files = await readdir(logDirectory);
+    expect(files.sort()).toEqual(['process-1.1.jsonl', 'process-1.jsonl']);
+    const history = store.readHistory('process-1', Infinity);
+    expect(history.at(-1)?.seq).toBe(20);
+    expect(history[0]?.seq).toBeGreaterThan(1);
+    expect(history.map(entry => entry.seq)).toEqual([...history.map(entry => entry.seq)].sort((a, b) => a - b));
+  });
+
+  it('should delete the oldest files of other processes when the directory exceeds its size limit', async () => {
+    // Arrange
+    const staleFile = join(logDirectory, '0b5e4f1c-2a3d-4e6f-8a9b-0c1d2e3f4a5b.1.jsonl');
+    await writeFile(staleFile, 'x'.repeat(500));
+    await utimes(staleFile, new Date(0), new Date(0));
+    const userFile = join(logDirectory, 'events.jsonl');
+    await writeFile(userFile, 'x'.repeat(500));
+    await utimes(userFile, new Date(0), new Date(0));
+    const store = new ProcessLogStoreImpl(createConfig({ logDirectoryMaxBytes: 400 }), new NoOpLogging());
+    const processId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+    // Act
+    store.append(processId, createEntries(1, 1));
+    await store.close();
+
+    // Assert
+    const files = await readdir(logDirectory);
+    expect(files.sort()).toEqual(['7c9e6679-7425-40de-944b-e07fc1f90ae7.jsonl', 'events.jsonl']);
+  });
+
+  it('should flush pending writes on close and stop persisting afterwards', async () => {
+    // Arrange
+    const store = new ProcessLogStoreImpl(createConfig(), new NoOpLogging());
+    store.append('process-1', createEntries(1, 2));
+
+    // Act
+    await store.close();
+    store.append('process-1', createEntries(3, 1));
+
+    // Assert
+    const content = await readFile(join(logDirectory, 'process-1.jsonl'), 'utf-8');
+    expect(content.trim().split('\n').map(line => (JSON.parse(line) as { seq: number }).seq)).toEqual([1, 2]);
+    expect(store.isEnabled()).toBe(false);
+  });
+
+  it('should skip malformed lines when reading history', async () => {
+    // Arrange
+    const store = new ProcessLogStoreImpl(createConfig(), new NoOpLogging());
+    store.append('process-1', createEntries(1, 1));
+    await store.close();
+    await writeFile(join(logDirectory, 'process-1.jsonl'), [
+      '{"seq":2,"stream":"stdout","line":"no timestamp"}',
+      'not json',
+      '',
+    ].join('\n'), { flag: 'a' });
+
+    // Act
+    const history = new ProcessLogStoreImpl(createConfig(), new NoOpLogging()).readHistory('process-1', Infinity);
+
+    // Assert
+    expect(history.map(entry => entry.seq)).toEqual([1]);
+  });
+
+  describe('with ProcessLogBuffer', () => {
+    let logStore: ProcessLogStoreImpl;
+    let logBuffer: ProcessLogBufferImpl;
+
+    beforeEach(() => {
+      const configProvider = createConfig();
+      logStore = new ProcessLogStoreImpl(configProvider, new NoOpLogging());
+      logBuffer = new ProcessLogBufferImpl(configProvider, logStore);
+      logBuffer.appendStdout('process-1', 'a\nb\nc\nd\ne\n');
+    });
+
+    it('should recover entries evicted from memory after a cursor', () => {
+      // Act
+      const logs = logBuffer.queryLogs('process-1', { afterCursor: 1 });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['b', 'c', 'd', 'e']);
+      expect(logs.evictedLines).toBe(0);
+    });
+
+    it('should page back through disk history', () => {
+      // Act
+      const logs = logBuffer.queryLogs('process-1', { beforeCursor: 4, lines: 2 });
+
+      // Assert
+      expect(logs.logs.map(entry => entry.line)).toEqual(['b', 'c']);
+    });
+
+    it('should not read disk history when memory holds the requested lines', () => {
+      // Arrange
+      const readHistory = vi.spyOn(logStore, 'readHistory');
+
+      // Act
+      const before = logBuffer.queryLogs('process-1', { beforeCursor: 5, lines: 2 });
+      const after = logBuffer.queryLogs('process-1', { afterCursor: 2, beforeCursor: 5 });
+
+      // Assert
+      expect(before.logs.map(entry => entry.line)).toEqual(['c', 'd']);
+      expect(after.logs.map(entry => entry.line)).toEqual(['c', 'd']);
+      expect(readHistory).not.toHaveBeenCalled();
+    });
+  });
+});
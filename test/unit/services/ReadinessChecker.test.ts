@@ -0,0 +1,214 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer, type Server } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl, type ProcessLogBuffer } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+
+describe('ReadinessChecker', () => {
+  let logBuffer: ProcessLogBuffer;
+  let readinessChecker: ReadinessCheckerImpl;
+
+  beforeEach(() => {
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+    readinessChecker = new ReadinessCheckerImpl(logBuffer);
+  });
+
+  describe('validate', () => {
+    it('should reject an invalid log pattern', () => {
+      expect(() => {
+        readinessChecker.validate({ type: 'log', pattern: '(' });
+      }).toThrow('Invalid readiness pattern');
+    });
+
+    it('should reject an invalid port', () => {
+      expect(() => {
+        readinessChecker.validate({ type: 'port', port: 70000 });
+      }).toThrow('Invalid readiness port');
+    });
+
+    it('should reject an invalid URL', () => {
+      expect(() => {
+        readinessChecker.validate({ type: 'http', url: 'not a url' });
+      }).toThrow('Invalid readiness URL');
+    });
+
+    it('should reject URLs that are not HTTP', () => {
+      expect(() => {
+        readinessChecker.validate({ type: 'http', url: 'localhost:3000/health' });
+      }).toThrow('Invalid readiness URL: localhost:3000/health');
+      expect(() => {
+        readinessChecker.validate({ type: 'http', url: 'ftp://localhost/health' });
+      }).toThrow('Invalid readiness URL');
+    });
+
+    it('should accept a valid check', () => {
+      expect(() => {
+        readinessChecker.validate({ type: 'log', pattern: 'Listening on \\d+' });
+      }).not.toThrow();
+    });
+  });
+
+  describe('log check', () => {
+    it('should be ready when a matching line was already captured', async () => {
+      // Arrange
+      logBuffer.appendStdout('process-1', 'Listening on 3000\n');
+
+      // Act
+      const result = await readinessChecker.waitUntilReady({
+        processId: 'process-1',
+        cwd: '/tmp',
+        check: { type: 'log', pattern: 'Listening on \\d+' },
+        signal: new AbortController().signal,
+      });
+
+      // Assert
+      expect(result.state).toBe('ready');
+      expect(result.matchedLine).toBe('Listening on 3000');
+    });
+
+    it('should be ready when a matching line arrives later', async () => {
+      // Arrange
+      const promise = readinessChecker.waitUntilReady({
+        processId: 'process-1',
+        cwd: '/tmp',
+        check: { type: 'log', pattern: 'ready' },
+        signal: new AbortController().signal,
+      });
+
+      // Act
+      logBuffer.appendStdout('process-1', 'compiling...\n');
+      logBuffer.appendStderr('process-1', 'server ready\n');
+
+      // Assert
+      const result = await promise;
+      expect(result.state).toBe('ready');
+      expect(result.matchedLine).toBe('server ready');
+    });
+
+    it('should time out when no line matches', async () => {
+      // Act
+      const result = await readinessChecker.waitUntilReady({
+        processId: 'process-1',
+        cwd: '/tmp',
+        check: { type: 'log', pattern: 'never', timeoutMs: 50 },
+        signal: new AbortController().signal,
+      });
+
+      // Assert
+      expect(result.state).toBe('timed_out');
+      expect(result.matchedLine).toBeUndefined();
+    });
+
+    it('should report exited when the signal is aborted', async () => {
+      // Arrange
+      const controller = new AbortController();
+      const promise = readinessChecker.waitUntilReady({
+        processId: 'process-1',
+        cwd: '/tmp',
+        check: { type: 'log', pattern: 'never' },
+        signal: controller.signal,
+      });
+
+      // Act
+      controller.abort();
+
+      // Assert
+      const result = await promise;
+      expect(result.state).toBe('exited');
+    });
+  });
+
+  describe('file check', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await mkdtemp(join(tmpdir(), 'readiness-'));
+    });
+
+    afterEach(async () => {
+      await rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should be ready when the file appears', async () => {
+      // Arrange
+      const promise = readinessChecker.waitUntilReady({
+        processId: 'process-1',
+        cwd: tmpDir,
+        check: { type: 'file', path: 'ready.txt', timeoutMs: 5000 },
+        signal: new AbortController().signal,
+      });
+
+      // Act
+      await writeFile(join(tmpDir, 'ready.txt'), 'ok');
+
+      // Assert
+      const result = await promise;
+      expect(result.state).toBe('ready');
+    });
+  });
+
+  describe('port check', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise((resolve) => {
+        if (server) {
+          server.close(resolve);
+        }
+        else {
+          resolve(undefined);
+        }
+      });
+      server = undefined;
+    });
+
+    it('should be ready when the port accepts connections', async () => {
+      // Arrange
+      const listening = createServer();
+      server = listening;
+      await new Promise((resolve) => {
+        listening.listen(0, '127.0.0.1', () => {
+          resolve(undefined);
+        });
+      });
+      const address = listening.address();
+      const port = typeof address === 'object' && address !== null ? address.port : 0;
+
+      // Act
+      const result = await readinessChecker.waitUntilReady({
+        processId: 'process-1',
+        cwd: '/tmp',
+        check: { type: 'port', port, host: '127.0.0.1', timeoutMs: 5000 },
+        signal: new AbortController().signal,
+      });
+
+      // Assert
+      expect(result.state).toBe('ready');
+    });
+  });
+
+  describe('http check', () => {
+    it('should keep polling when the request cannot be made', async () => {
+      // Act
+      const result = await readinessChecker.waitUntilReady({
+        processId: 'process-1',
+        cwd: '/tmp',
+        check: { type: 'http', url: 'localhost:3000/health', timeoutMs: 300 },
+        signal: new AbortController().signal,
+      });
+
+      // Assert
+      expect(result.state).toBe('timed_out');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { GetErrorsHandler } from '@/services/tools/GetErrorsHandler.js';
+import { StartHandler } from '@/services/tools/StartHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('GetErrorsHandler', () => {
+  let processManager: BgProcessManagerImpl;
+  let handler: GetErrorsHandler;
+  let startHandler: StartHandler;
+  let mockProcessController: MockProcessController;
+
+  beforeEach(() => {
+    mockProcessController = new MockProcessController();
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new GetErrorsHandler(processManager);
+    startHandler = new StartHandler(processManager);
+  });
+
+  it('should handle errors request for non-existent process', async () => {
+    const result = await handler.handle({ processId: 'non-existent' });
+
+    expect(result.content).toHaveLength(1);
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Process not found');
+  });
+
+  it('should summarize grouped stack traces and repeated errors', async () => {
+    const startResult = await startHandler.handle({ command: 'node', args: ['server.js'] });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    const pid = mockProcessController.getLastPid();
+    mockProcessController.emitStdout(pid, 'Listening on port 3000\n');
+    mockProcessController.emitStderr(pid, 'TypeError: Cannot read properties of undefined (reading \'id\')\n    at getUser (/app/users.js:12:20)\n');
+    mockProcessController.emitStderr(pid, 'TypeError: Cannot read properties of undefined (reading \'id\')\n    at getUser (/app/users.js:12:20)\n');
+
+    const result = await handler.handle({ processId: startResponse.processId });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.totals).toEqual({ error: 2, warning: 0, stderr: 0 });
+    expect(response.groups).toHaveLength(1);
+    expect(response.groups[0]).toMatchObject({
+      kind: 'error',
+      stream: 'stderr',
+      message: 'TypeError: Cannot read properties of undefined (reading \'id\')',
+      stack: ['    at getUser (/app/users.js:12:20)'],
+      count: 2,
+      firstSeq: 2,
+      lastSeq: 4,
+    });
+  });
+
+  it('should reject an invalid since timestamp', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId, since: 'an hour ago' });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Invalid since timestamp');
+  });
+
+  it('should only include errors logged until the given time', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    const pid = mockProcessController.getLastPid();
+    mockProcessController.emitStderr(pid, 'Error: first failure\n');
+    const until = new Date();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    mockProcessController.emitStderr(pid, 'Error: second failure\n');
+
+    const result = await handler.handle({ processId: startResponse.processId, until: until.toISOString() });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.groups.map((group: { message: string }) => group.message)).toEqual(['Error: first failure']);
+  });
+});
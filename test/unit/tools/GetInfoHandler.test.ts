@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
 import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
 import { GetInfoHandler } from '@/services/tools/GetInfoHandler.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { StopHandler } from '@/services/tools/StopHandler.js';
@@ -21,9 +24,9 @@ describe('GetInfoHandler', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    const logBuffer = new ProcessLogBufferImpl(configProvider);
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
 
-    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController);
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
     handler = new GetInfoHandler(processManager);
     startHandler = new StartHandler(processManager);
     stopHandler = new StopHandler(processManager);
@@ -120,4 +123,30 @@ describe('GetInfoHandler', () => {
     expect(response.success).toBe(false);
     expect(response.error).toBeDefined();
   });
+
+  it('should return process info by name', async () => {
+    const startResult = await startHandler.handle({ command: 'node', name: 'api-server' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    expect(startResponse.name).toBe('api-server');
+
+    const result = await handler.handle({ processId: 'api-server' });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.process.id).toBe(startResponse.processId);
+    expect(response.process.name).toBe('api-server');
+  });
+
+  it('should include the run history', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    await processManager.restartProcess(startResponse.processId);
+
+    const result = await handler.handle({ processId: startResponse.processId });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.process.runs).toHaveLength(2);
+    expect(response.process.runs[0].pid).toBe(startResponse.pid);
+    expect(response.process.runs[1].run).toBe(2);
+  });
 });
@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
 import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
 import { GetLogsHandler } from '@/services/tools/GetLogsHandler.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { MockProcessController } from '@~test/mocks/MockProcessController.js';
@@ -19,9 +22,9 @@ describe('GetLogsHandler', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    const logBuffer = new ProcessLogBufferImpl(configProvider);
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
 
-    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController);
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
     handler = new GetLogsHandler(processManager);
     startHandler = new StartHandler(processManager);
   });
@@ -52,8 +55,7 @@ describe('GetLogsHandler', () => {
     expect(response.success).toBe(true);
     expect(response.processId).toBe(processId);
     expect(response.logs).toBeDefined();
-    expect(response.logs.stdout).toEqual([]);
-    expect(response.logs.stderr).toEqual([]);
+    expect(response.logs.entries).toEqual([]);
     expect(response.logs.lastUpdated).toBeDefined();
     expect(response.logs.totalLines).toBe(0);
   });
@@ -86,8 +88,7 @@ describe('GetLogsHandler', () => {
     expect(result.content).toHaveLength(1);
     const response = JSON.parse(result.content[0]?.text ?? '{}');
     expect(response.success).toBe(true);
-    expect(response.logs.stdout).toEqual([]);
-    expect(response.logs.stderr).toEqual([]);
+    expect(response.logs.entries).toEqual([]);
     expect(typeof response.logs.totalLines).toBe('number');
   });
 
@@ -118,4 +119,117 @@ describe('GetLogsHandler', () => {
     expect(() => new Date(response.logs.lastUpdated)).not.toThrow();
     expect(new Date(response.logs.lastUpdated).toISOString()).toBe(response.logs.lastUpdated);
   });
+
+  it('should return interleaved entries in chronological order', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    const pid = mockProcessController.getLastPid();
+    mockProcessController.emitStdout(pid, 'first\n');
+    mockProcessController.emitStderr(pid, 'second\n');
+    mockProcessController.emitStdout(pid, 'third\n');
+
+    const result = await handler.handle({ processId: startResponse.processId });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.logs.entries.map((entry: { stream: string; line: string }) => `${entry.stream}:${entry.line}`))
+      .toEqual(['stdout:first', 'stderr:second', 'stdout:third']);
+    expect(new Date(response.logs.entries[0].timestamp).toISOString()).toBe(response.logs.entries[0].timestamp);
+  });
+
+  it('should filter logs with grep, stream and context', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    const pid = mockProcessController.getLastPid();
+    mockProcessController.emitStdout(pid, 'request 1\nrequest 2\n');
+    mockProcessController.emitStderr(pid, 'TypeError: boom\n    at handler\n');
+    mockProcessController.emitStdout(pid, 'request 3\n');
+
+    const result = await handler.handle({
+      processId: startResponse.processId,
+      grep: 'typeerror',
+      ignoreCase: true,
+      stream: 'stderr',
+      after: 1,
+    });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.logs.entries.map((entry: { line: string }) => entry.line))
+      .toEqual(['TypeError: boom', '    at handler']);
+    expect(response.logs.totalLines).toBe(2);
+  });
+
+  it('should return only new lines after a cursor', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    const pid = mockProcessController.getLastPid();
+    mockProcessController.emitStdout(pid, 'building...\n');
+    const firstResult = await handler.handle({ processId: startResponse.processId });
+    const firstResponse = JSON.parse(firstResult.content[0]?.text ?? '{}');
+    mockProcessController.emitStdout(pid, 'done\n');
+
+    const result = await handler.handle({ processId: startResponse.processId, afterCursor: firstResponse.logs.nextCursor });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.logs.entries.map((entry: { line: string }) => entry.line)).toEqual(['done']);
+    expect(response.logs.nextCursor).toBe(2);
+    expect(response.logs.evictedLines).toBe(0);
+  });
+
+  it('should return raw lines with escape sequences when requested', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    mockProcessController.emitStdout(mockProcessController.getLastPid(), '\u001b[33mwarn\u001b[0m\n');
+
+    const cleanResult = await handler.handle({ processId: startResponse.processId });
+    const rawResult = await handler.handle({ processId: startResponse.processId, raw: true });
+
+    const cleanResponse = JSON.parse(cleanResult.content[0]?.text ?? '{}');
+    const rawResponse = JSON.parse(rawResult.content[0]?.text ?? '{}');
+    expect(cleanResponse.logs.entries[0].line).toBe('warn');
+    expect(rawResponse.logs.entries[0].line).toBe('\u001b[33mwarn\u001b[0m');
+  });
+
+  it('should return grouped stack traces as single entries', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    mockProcessController.emitStderr(mockProcessController.getLastPid(), 'Error: boom\n    at main (index.js:1:1)\n');
+
+    const result = await handler.handle({ processId: startResponse.processId, group: true });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.logs.entries).toHaveLength(1);
+    expect(response.logs.entries[0]).toMatchObject({ seq: 1, endSeq: 2, line: 'Error: boom\n    at main (index.js:1:1)' });
+  });
+
+  it('should filter JSON logs by level and return parsed fields', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    mockProcessController.emitStdout(
+      mockProcessController.getLastPid(),
+      '{"level":30,"msg":"ok"}\n{"level":50,"time":"2024-01-01T00:00:00.000Z","msg":"db down","host":"db-1"}\n',
+    );
+
+    const result = await handler.handle({ processId: startResponse.processId, level: 'error' });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.logs.entries).toHaveLength(1);
+    expect(response.logs.entries[0]).toMatchObject({
+      level: 'error',
+      msg: 'db down',
+      time: '2024-01-01T00:00:00.000Z',
+      fields: { host: 'db-1' },
+    });
+  });
+
+  it('should reject an invalid since timestamp', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId, since: 'yesterday-ish' });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Invalid since timestamp');
+  });
 });
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { ListDefinitionsHandler } from '@/services/tools/ListDefinitionsHandler.js';
+import { StartHandler } from '@/services/tools/StartHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('ListDefinitionsHandler', () => {
+  let handler: ListDefinitionsHandler;
+  let startHandler: StartHandler;
+
+  beforeEach(() => {
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+      processDefinitions: [
+        { name: 'api', command: 'npm', args: ['run', 'dev'], cwd: '/tmp', source: '/tmp/.manage-bg.yaml' },
+        { name: 'worker', command: 'sh', args: ['-c', 'node worker.js'], cwd: '/tmp', source: '/tmp/Procfile' },
+      ],
+      processDefinitionErrors: ['Invalid Procfile entry at /tmp/Procfile:2: web:'],
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+
+    const processManager = new BgProcessManagerImpl(logBuffer, new MockProcessController(), new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new ListDefinitionsHandler(processManager);
+    startHandler = new StartHandler(processManager);
+  });
+
+  it('should list definitions with their running processes', async () => {
+    const startResult = await startHandler.handle({ definition: 'api' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle();
+
+    expect(result.content).toHaveLength(1);
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.count).toBe(2);
+    expect(response.definitions).toEqual([
+      expect.objectContaining({ name: 'api', command: 'npm', source: '/tmp/.manage-bg.yaml', running: true, processId: startResponse.processId }),
+      expect.objectContaining({ name: 'worker', running: false }),
+    ]);
+  });
+
+  it('should report skipped Procfile entries', async () => {
+    const result = await handler.handle();
+    const startResult = await startHandler.handle({ definition: 'web' });
+
+    expect(JSON.parse(result.content[0]?.text ?? '{}').errors).toEqual(['Invalid Procfile entry at /tmp/Procfile:2: web:']);
+    expect(JSON.parse(startResult.content[0]?.text ?? '{}').error).toBe(
+      'VALIDATION_ERROR: Unknown process definition: web (available: api, worker); Invalid Procfile entry at /tmp/Procfile:2: web:',
+    );
+  });
+});
@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
 import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
 import { ListHandler } from '@/services/tools/ListHandler.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { MockProcessController } from '@~test/mocks/MockProcessController.js';
@@ -19,9 +22,9 @@ describe('ListHandler', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    const logBuffer = new ProcessLogBufferImpl(configProvider);
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
 
-    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController);
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
     handler = new ListHandler(processManager);
     startHandler = new StartHandler(processManager);
   });
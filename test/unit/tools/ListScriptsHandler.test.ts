@@ -0,0 +1,56 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { ListScriptsHandler } from '@/services/tools/ListScriptsHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('ListScriptsHandler', () => {
+  let handler: ListScriptsHandler;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+    const processManager = new BgProcessManagerImpl(logBuffer, new MockProcessController(), new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new ListScriptsHandler(processManager);
+    projectDir = await mkdtemp(join(tmpdir(), 'manage-bg-scripts-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should list scripts with the detected package manager', async () => {
+    await writeFile(join(projectDir, 'package.json'), JSON.stringify({ name: 'acme', scripts: { dev: 'vite', test: 'vitest' } }));
+    await writeFile(join(projectDir, 'package-lock.json'), '{}');
+
+    const result = await handler.handle({ cwd: projectDir });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response).toEqual({
+      success: true,
+      packageManager: 'npm',
+      lockfile: join(projectDir, 'package-lock.json'),
+      packages: [{ name: 'acme', dir: projectDir, scripts: { dev: 'vite', test: 'vitest' } }],
+    });
+  });
+
+  it('should report directories without package.json', async () => {
+    const result = await handler.handle({ cwd: projectDir });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('No package.json found');
+  });
+});
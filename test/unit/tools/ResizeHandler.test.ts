@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { ResizeHandler } from '@/services/tools/ResizeHandler.js';
+import { StartHandler } from '@/services/tools/StartHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('ResizeHandler', () => {
+  let processManager: BgProcessManagerImpl;
+  let handler: ResizeHandler;
+  let startHandler: StartHandler;
+  let mockProcessController: MockProcessController;
+
+  beforeEach(() => {
+    mockProcessController = new MockProcessController();
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new ResizeHandler(processManager);
+    startHandler = new StartHandler(processManager);
+  });
+
+  it('should handle resize request for non-existent process', async () => {
+    const result = await handler.handle({ processId: 'non-existent', columns: 100, rows: 30 });
+
+    expect(result.content).toHaveLength(1);
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Process not found');
+  });
+
+  it('should resize the terminal of a tty process', async () => {
+    const startResult = await startHandler.handle({ command: 'jest', args: ['--watch'], tty: true });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    expect(startResponse.tty).toEqual({ columns: 80, rows: 24 });
+
+    const result = await handler.handle({ processId: startResponse.processId, columns: 132, rows: 43 });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.tty).toEqual({ columns: 132, rows: 43 });
+    expect(mockProcessController.getTerminalSize(startResponse.pid)).toEqual({ columns: 132, rows: 43 });
+  });
+
+  it('should return an error for a process without a terminal', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId, columns: 132, rows: 43 });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('not running under a pseudo-terminal');
+  });
+});
@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
 import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
 import { RestartHandler } from '@/services/tools/RestartHandler.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { MockProcessController } from '@~test/mocks/MockProcessController.js';
@@ -19,9 +22,9 @@ describe('RestartHandler', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    const logBuffer = new ProcessLogBufferImpl(configProvider);
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
 
-    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController);
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
     handler = new RestartHandler(processManager);
     startHandler = new StartHandler(processManager);
   });
@@ -49,9 +52,9 @@ describe('RestartHandler', () => {
     expect(result.content).toHaveLength(1);
     const response = JSON.parse(result.content[0]?.text ?? '{}');
     expect(response.success).toBe(true);
-    expect(response.originalProcessId).toBe(originalProcessId);
-    expect(response.newProcessId).toBeDefined();
-    expect(response.newProcessId).not.toBe(originalProcessId);
+    expect(response.processId).toBe(originalProcessId);
+    expect(response.run).toBe(2);
+    expect(response.pid).not.toBe(startResponse.pid);
     expect(response.message).toBe('Process restarted successfully');
   });
 });
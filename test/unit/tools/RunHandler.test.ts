@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { RunHandler } from '@/services/tools/RunHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('RunHandler', () => {
+  let processManager: BgProcessManagerImpl;
+  let handler: RunHandler;
+  let mockProcessController: MockProcessController;
+
+  beforeEach(() => {
+    mockProcessController = new MockProcessController();
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new RunHandler(processManager);
+  });
+
+  it('should return the exit code and output in one response', async () => {
+    const running = handler.handle({ command: 'git', args: ['status', '--short'], name: 'status' });
+    await vi.waitFor(async () => {
+      expect(await processManager.listProcesses()).toHaveLength(1);
+    });
+    const pid = mockProcessController.getLastPid();
+
+    mockProcessController.emitStdout(pid, ' M src/index.ts\n');
+    mockProcessController.emitExit(pid, 0);
+    const result = await running;
+
+    expect(result.content).toHaveLength(1);
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response).toMatchObject({
+      success: true,
+      name: 'status',
+      state: 'exited',
+      status: 'stopped',
+      exitCode: 0,
+      stdout: ' M src/index.ts',
+      stderr: '',
+      stdoutTruncated: false,
+    });
+    expect(response.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report a background process when the timeout elapses', async () => {
+    const result = await handler.handle({ command: 'npm', args: ['run', 'dev'], timeoutMs: 10, backgroundOnTimeout: true });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.state).toBe('backgrounded');
+    expect(response.status).toBe('running');
+    expect(response.exitCode).toBeUndefined();
+  });
+
+  it('should handle start failures', async () => {
+    const result = await handler.handle({ command: 'npm', args: ['test'], cwd: '/nonexistent/directory' });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Directory not found');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { SendInputHandler } from '@/services/tools/SendInputHandler.js';
+import { StartHandler } from '@/services/tools/StartHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('SendInputHandler', () => {
+  let processManager: BgProcessManagerImpl;
+  let handler: SendInputHandler;
+  let startHandler: StartHandler;
+  let mockProcessController: MockProcessController;
+
+  beforeEach(() => {
+    mockProcessController = new MockProcessController();
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new SendInputHandler(processManager);
+    startHandler = new StartHandler(processManager);
+  });
+
+  it('should handle send input request for non-existent process', async () => {
+    const result = await handler.handle({ processId: 'non-existent', text: 'hello' });
+
+    expect(result.content).toHaveLength(1);
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Process not found');
+  });
+
+  it('should send input to a process started with a stdin pipe', async () => {
+    const startResult = await startHandler.handle({ command: 'vitest', stdin: 'pipe' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId, text: 'r', newline: false });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.sent).toBe(true);
+    expect(response.closed).toBe(false);
+    expect(mockProcessController.getStdinWrites(startResponse.pid)).toEqual(['r']);
+  });
+
+  it('should close stdin', async () => {
+    const startResult = await startHandler.handle({ command: 'cat', stdin: 'pipe' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId, close: true });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.closed).toBe(true);
+    expect(mockProcessController.isStdinClosed(startResponse.pid)).toBe(true);
+  });
+
+  it('should require text or close', async () => {
+    const startResult = await startHandler.handle({ command: 'cat', stdin: 'pipe' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Either text or close must be specified');
+  });
+});
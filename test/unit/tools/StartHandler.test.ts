@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
 import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { MockProcessController } from '@~test/mocks/MockProcessController.js';
 
@@ -17,9 +20,9 @@ describe('StartHandler', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    const logBuffer = new ProcessLogBufferImpl(configProvider);
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
 
-    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController);
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
     handler = new StartHandler(processManager);
   });
 
@@ -86,4 +89,48 @@ describe('StartHandler', () => {
     expect(response.command).toBe('ls');
     expect(response.args).toEqual([]);
   });
+
+  it('should include readiness result in the response', async () => {
+    const args = {
+      command: 'node',
+      readiness: { type: 'log' as const, pattern: 'ready', timeoutMs: 20 },
+    };
+
+    const result = await handler.handle(args);
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.status).toBe('running');
+    expect(response.readiness.state).toBe('timed_out');
+  });
+
+  it('should return an error when the concurrent process limit is reached', async () => {
+    for (let i = 0; i < 10; i++) {
+      await handler.handle({ command: 'sleep', args: [String(i)] });
+    }
+
+    const result = await handler.handle({ command: 'sleep', args: ['10'] });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Maximum concurrent processes reached (10)');
+  });
+
+  it('should require exactly one of a command, a definition or a script', async () => {
+    const bothResult = await handler.handle({ command: 'npm', definition: 'api' });
+    const neitherResult = await handler.handle({});
+    const packageResult = await handler.handle({ command: 'npm', package: '@acme/api' });
+
+    expect(JSON.parse(bothResult.content[0]?.text ?? '{}').error).toContain('Specify only one of command, definition or script');
+    expect(JSON.parse(neitherResult.content[0]?.text ?? '{}').error).toContain('One of command, definition or script is required');
+    expect(JSON.parse(packageResult.content[0]?.text ?? '{}').error).toContain('package can only be used with script');
+  });
+
+  it('should report unknown definitions', async () => {
+    const result = await handler.handle({ definition: 'api' });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Unknown process definition: api (no definitions found)');
+  });
 });
@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
 import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
 import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
 import { StartHandler } from '@/services/tools/StartHandler.js';
 import { StopHandler } from '@/services/tools/StopHandler.js';
 import { MockProcessController } from '@~test/mocks/MockProcessController.js';
@@ -19,9 +22,9 @@ describe('StopHandler', () => {
       maxConcurrentProcesses: 10,
       processTerminationTimeoutMs: 5000,
     });
-    const logBuffer = new ProcessLogBufferImpl(configProvider);
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
 
-    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController);
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
     handler = new StopHandler(processManager);
     startHandler = new StartHandler(processManager);
   });
@@ -52,5 +55,29 @@ describe('StopHandler', () => {
     expect(response.success).toBe(true);
     expect(response.processId).toBe(processId);
     expect(response.message).toBe('Process stopped successfully');
+    expect(response.signal).toBe('SIGTERM');
+    expect(response.escalated).toBe(false);
+  });
+
+  it('should pass signal options to the process manager', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId, force: true });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.signal).toBe('SIGKILL');
+    expect(mockProcessController.getSignals(startResponse.pid)).toEqual(['SIGKILL']);
+  });
+
+  it('should stop a process by name', async () => {
+    await startHandler.handle({ command: 'node', name: 'worker' });
+
+    const result = await handler.handle({ processId: 'worker' });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.message).toBe('Process stopped successfully');
   });
 });
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { StartHandler } from '@/services/tools/StartHandler.js';
+import { WaitForLogHandler } from '@/services/tools/WaitForLogHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('WaitForLogHandler', () => {
+  let processManager: BgProcessManagerImpl;
+  let handler: WaitForLogHandler;
+  let startHandler: StartHandler;
+  let mockProcessController: MockProcessController;
+
+  beforeEach(() => {
+    mockProcessController = new MockProcessController();
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new WaitForLogHandler(processManager);
+    startHandler = new StartHandler(processManager);
+  });
+
+  it('should handle wait request for non-existent process', async () => {
+    const result = await handler.handle({ processId: 'non-existent', pattern: 'ready' });
+
+    expect(result.content).toHaveLength(1);
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Process not found');
+  });
+
+  it('should return the matching line with context', async () => {
+    const startResult = await startHandler.handle({ command: 'npm', args: ['run', 'dev'] });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    const pid = mockProcessController.getLastPid();
+    const waiting = handler.handle({ processId: startResponse.processId, pattern: 'Local:\\s+http', context: 1 });
+
+    mockProcessController.emitStdout(pid, 'VITE v5.0.0  ready in 300 ms\n  Local:   http://localhost:5173/\n');
+    const result = await waiting;
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.state).toBe('matched');
+    expect(response.matched).toBe(true);
+    expect(response.match).toMatchObject({ seq: 2, stream: 'stdout', line: '  Local:   http://localhost:5173/' });
+    expect(response.context.map((entry: { line: string }) => entry.line)).toEqual(['VITE v5.0.0  ready in 300 ms']);
+    expect(response.nextCursor).toBe(2);
+  });
+
+  it('should report a timeout as an unmatched result', async () => {
+    const startResult = await startHandler.handle({ command: 'node' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+
+    const result = await handler.handle({ processId: startResponse.processId, pattern: 'ready', timeoutMs: 10 });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.state).toBe('timed_out');
+    expect(response.matched).toBe(false);
+  });
+});
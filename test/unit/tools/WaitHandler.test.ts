@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BgProcessManagerImpl } from '@/services/BgProcessManager.js';
+import { ConfigProviderImpl } from '@/services/ConfigProvider.js';
+import { NoOpLogging } from '@/services/Logging.js';
+import { ProcessLogBufferImpl } from '@/services/ProcessLogBuffer.js';
+import { ProcessLogStoreImpl } from '@/services/ProcessLogStore.js';
+import { ReadinessCheckerImpl } from '@/services/ReadinessChecker.js';
+import { StartHandler } from '@/services/tools/StartHandler.js';
+import { WaitHandler } from '@/services/tools/WaitHandler.js';
+import { MockProcessController } from '@~test/mocks/MockProcessController.js';
+
+describe('WaitHandler', () => {
+  let processManager: BgProcessManagerImpl;
+  let handler: WaitHandler;
+  let startHandler: StartHandler;
+  let mockProcessController: MockProcessController;
+
+  beforeEach(() => {
+    mockProcessController = new MockProcessController();
+    const configProvider = new ConfigProviderImpl({
+      maxLogLinesPerProcesses: 1000,
+      maxConcurrentProcesses: 10,
+      processTerminationTimeoutMs: 5000,
+    });
+    const logBuffer = new ProcessLogBufferImpl(configProvider, new ProcessLogStoreImpl(configProvider, new NoOpLogging()));
+
+    processManager = new BgProcessManagerImpl(logBuffer, mockProcessController, new ReadinessCheckerImpl(logBuffer), configProvider);
+    handler = new WaitHandler(processManager);
+    startHandler = new StartHandler(processManager);
+  });
+
+  it('should handle wait request for non-existent process', async () => {
+    const result = await handler.handle({ processIds: ['non-existent'] });
+
+    expect(result.content).toHaveLength(1);
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Process not found');
+  });
+
+  it('should return the exit code and log tail of an exited process', async () => {
+    const startResult = await startHandler.handle({ command: 'npm', args: ['run', 'build'], name: 'build' });
+    const startResponse = JSON.parse(startResult.content[0]?.text ?? '{}');
+    const pid = mockProcessController.getLastPid();
+    const waiting = handler.handle({ processIds: ['build'] });
+
+    mockProcessController.emitStderr(pid, 'error TS2304: Cannot find name \'foo\'.\n');
+    mockProcessController.emitExit(pid, 2);
+    const result = await waiting;
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.completed).toBe(true);
+    expect(response.timedOut).toBe(false);
+    expect(response.processes).toHaveLength(1);
+    expect(response.processes[0]).toMatchObject({
+      processId: startResponse.processId,
+      name: 'build',
+      status: 'error',
+      running: false,
+      exitCode: 2,
+    });
+    expect(response.processes[0].logTail).toEqual([
+      expect.objectContaining({ stream: 'stderr', line: 'error TS2304: Cannot find name \'foo\'.' }),
+    ]);
+  });
+
+  it('should report a timeout without treating it as an exit', async () => {
+    await startHandler.handle({ command: 'npm', args: ['test'], name: 'test' });
+
+    const result = await handler.handle({ processIds: ['test'], timeoutMs: 10 });
+
+    const response = JSON.parse(result.content[0]?.text ?? '{}');
+    expect(response.success).toBe(true);
+    expect(response.completed).toBe(false);
+    expect(response.timedOut).toBe(true);
+    expect(response.processes[0]).toMatchObject({ status: 'running', running: true });
+    expect(response.processes[0].exitCode).toBeUndefined();
+  });
+});